@@ -0,0 +1,119 @@
+/**
+ * Measures `FrameDecoder` throughput on synthetic multi-megabyte streams. The
+ * streams start with debug log output followed by frames of random length
+ * and random binary payloads, so payloads regularly contain `0x94 0xc3`, with
+ * a debug log line between some of them, and are fed to the decoder in small
+ * chunks as serial and TCP reads deliver them.
+ *
+ * Run with `pnpm bench`.
+ */
+import type { FrameDecoderHandler } from "../src/types.ts";
+import { FrameDecoder } from "../src/utils/frameDecoder.ts";
+import { encodeFrame, maxPayloadLength } from "../src/utils/streamCodec.ts";
+
+const streamSizes = [1, 4, 16];
+
+const maxChunkLength = 64;
+
+/** Share of frames followed by a log line */
+const logLineRate = 1 / 32;
+
+const logLine = new TextEncoder().encode(
+  "DEBUG | 00:00:02 2 [Router] Received packet from 0x12345678\r\n",
+);
+
+/** Deterministic so runs are comparable */
+const random = (() => {
+  let seed = 0x2545f491;
+  return (): number => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) / 2 ** 32;
+  };
+})();
+
+interface Stream {
+  chunks: Uint8Array[];
+  bytes: number;
+  frames: number;
+  /** Frames whose payload contains a `0x94 0xc3` header */
+  framesWithHeader: number;
+  /** Frames followed by a log line instead of the next frame */
+  framesWithLogLine: number;
+}
+
+const buildStream = (megabytes: number): Stream => {
+  const bytes = megabytes * 1024 * 1024;
+  const data = new Uint8Array(bytes + maxPayloadLength + 4 + logLine.length);
+  const preamble = new TextEncoder().encode(
+    "INFO  | 00:00:01 1 [Main] Starting meshtastic\r\n".repeat(16),
+  );
+  data.set(preamble);
+
+  let length = preamble.length;
+  let frames = 0;
+  let framesWithHeader = 0;
+  let framesWithLogLine = 0;
+  while (length < bytes) {
+    const payload = new Uint8Array(1 + Math.floor(random() * maxPayloadLength));
+    for (let index = 0; index < payload.length; index++) {
+      payload[index] = Math.floor(random() * 256);
+    }
+    const hasHeader = payload.some(
+      (byte, index) => byte === 0x94 && payload[index + 1] === 0xc3,
+    );
+    if (hasHeader) {
+      framesWithHeader++;
+    }
+    const frame = encodeFrame(payload);
+    data.set(frame, length);
+    length += frame.length;
+    frames++;
+
+    /**
+     * A header in the payload followed by a log line is indistinguishable
+     * from a frame cut short, so only frames without one are followed by a
+     * log line
+     */
+    if (!hasHeader && random() < logLineRate) {
+      data.set(logLine, length);
+      length += logLine.length;
+      framesWithLogLine++;
+    }
+  }
+
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < length; ) {
+    const chunkLength = 1 + Math.floor(random() * maxChunkLength);
+    chunks.push(data.subarray(offset, Math.min(offset + chunkLength, length)));
+    offset += chunkLength;
+  }
+  return { chunks, bytes: length, frames, framesWithHeader, framesWithLogLine };
+};
+
+for (const megabytes of streamSizes) {
+  const stream = buildStream(megabytes);
+  const decoder = new FrameDecoder();
+  let frames = 0;
+  const handler: FrameDecoderHandler = {
+    onFrame: () => {
+      frames++;
+      return true;
+    },
+    onPadding: () => {},
+  };
+
+  const start = performance.now();
+  for (const chunk of stream.chunks) {
+    decoder.decode(chunk, handler);
+  }
+  const seconds = (performance.now() - start) / 1000;
+
+  console.log(
+    `${megabytes} MB in ${stream.chunks.length} chunks: ${(stream.bytes / 1024 / 1024 / seconds).toFixed(1)} MB/s, ${Math.round(frames / seconds)} frames/s, ${frames}/${stream.frames} frames decoded (${stream.framesWithHeader} with a header in the payload, ${stream.framesWithLogLine} followed by a log line), ${decoder.stats.malformedFrames} malformed`,
+  );
+  if (frames !== stream.frames) {
+    process.exitCode = 1;
+  }
+}
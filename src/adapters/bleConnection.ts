@@ -107,12 +107,34 @@ export class BleConnection extends MeshDevice {
         Types.Emitter[Types.Emitter.Connect],
         "Device disconnected",
       );
-      this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
-      this.complete();
+      this.handleConnectionLost();
     });
 
+    await this.connectGatt();
+
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+    this.startConfigure();
+
+    this.timerUpdateFromRadio = setInterval(() => this.readFromRadio(), 1000);
+  }
+
+  /** Reconnects to the GATT server of the current device */
+  protected async reopen(): Promise<void> {
+    this.gattServer = undefined;
+    await this.connectGatt();
+    if (!this.device?.gatt?.connected) {
+      throw new Error("Failed to reconnect to GATT server");
+    }
+  }
+
+  /**
+   * Connects to the device's GATT server and subscribes to the Meshtastic
+   * characteristics
+   */
+  private async connectGatt(): Promise<void> {
     /** Connect to device */
-    await this.device.gatt
+    await this.device?.gatt
       ?.connect()
       .then((server) => {
         this.log.info(
@@ -183,20 +205,13 @@ export class BleConnection extends MeshDevice {
         this.readFromRadio();
       },
     );
-
-    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
-
-    this.configure().catch(() => {
-      // TODO: FIX, workaround for `wantConfigId` not getting acks.
-    });
-
-    this.timerUpdateFromRadio = setInterval(() => this.readFromRadio(), 1000);
   }
 
   /** Disconnects from the Meshtastic device */
   public disconnect(): void {
-    this.device?.gatt?.disconnect();
+    this.cancelReconnect();
     this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.device?.gatt?.disconnect();
     this.complete();
     if (this.timerUpdateFromRadio) {
       clearInterval(this.timerUpdateFromRadio);
@@ -1,6 +1,6 @@
 import { MeshDevice } from "../meshDevice.ts";
 import * as Types from "../types.ts";
-import { typedArrayToBuffer } from "../utils/index.ts";
+import { splitFromRadioBatch, typedArrayToBuffer } from "../utils/index.ts";
 
 /** Allows to connect to a Meshtastic device over HTTP(S) */
 export class HttpConnection extends MeshDevice {
@@ -15,6 +15,8 @@ export class HttpConnection extends MeshDevice {
 
   private readLoop: ReturnType<typeof setInterval> | null;
 
+  private fetchInterval: number;
+
   private pendingRequest: boolean;
 
   private abortController: AbortController;
@@ -28,6 +30,7 @@ export class HttpConnection extends MeshDevice {
     this.portId = "";
     this.receiveBatchRequests = false;
     this.readLoop = null;
+    this.fetchInterval = 3000;
     this.pendingRequest = false;
     this.abortController = new AbortController();
 
@@ -52,6 +55,8 @@ export class HttpConnection extends MeshDevice {
 
     this.portId = `${tls ? "https://" : "http://"}${address}`;
 
+    this.fetchInterval = fetchInterval;
+
     if (
       this.deviceStatus === Types.DeviceStatusEnum.DeviceConnecting &&
       (await this.ping())
@@ -60,37 +65,42 @@ export class HttpConnection extends MeshDevice {
         Types.Emitter[Types.Emitter.Connect],
         "Ping succeeded, starting configuration and request timer.",
       );
-      this.configure().catch(() => {
-        // TODO: FIX, workaround for `wantConfigId` not getting acks.
-      });
-      this.readLoop = setInterval(() => {
-        this.readFromRadio().catch((e: Error) => {
-          this.log.error(
-            Types.Emitter[Types.Emitter.Connect],
-            `❌ ${e.message}`,
-          );
-        });
-      }, fetchInterval);
+      this.startConfigure();
+      this.startReadLoop();
     } else if (
       this.deviceStatus !== Types.DeviceStatusEnum.DeviceDisconnected
     ) {
-      setTimeout(() => {
-        this.connect({
-          address: address,
-          fetchInterval: fetchInterval,
-          receiveBatchRequests: receiveBatchRequests,
-          tls: tls,
-        });
-      }, 10000);
+      this.handleConnectionLost();
+    }
+  }
+
+  /** Waits for the device to respond to pings again */
+  protected async reopen(): Promise<void> {
+    if (!(await this.ping())) {
+      throw new Error(`${this.portId} is unreachable`);
     }
+    this.startReadLoop();
+  }
+
+  private startReadLoop(): void {
+    if (this.readLoop) {
+      return;
+    }
+    this.readLoop = setInterval(() => {
+      this.readFromRadio().catch((e: Error) => {
+        this.log.error(Types.Emitter[Types.Emitter.Connect], `❌ ${e.message}`);
+      });
+    }, this.fetchInterval);
   }
 
   /** Disconnects from the Meshtastic device */
   public disconnect(): void {
+    this.cancelReconnect();
     this.abortController.abort();
     this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
     if (this.readLoop) {
       clearInterval(this.readLoop);
+      this.readLoop = null;
       this.complete();
     }
   }
@@ -128,14 +138,13 @@ export class HttpConnection extends MeshDevice {
       return;
     }
     let readBuffer = new ArrayBuffer(1);
+    let batch = this.receiveBatchRequests;
     const { signal } = this.abortController;
 
     while (readBuffer.byteLength > 0) {
       this.pendingRequest = true;
       await fetch(
-        `${this.portId}/api/v1/fromradio?all=${
-          this.receiveBatchRequests ? "true" : "false"
-        }`,
+        `${this.portId}/api/v1/fromradio?all=${batch ? "true" : "false"}`,
         {
           signal,
           method: "GET",
@@ -150,22 +159,52 @@ export class HttpConnection extends MeshDevice {
 
           readBuffer = await response.arrayBuffer();
 
-          if (readBuffer.byteLength > 0) {
-            this.handleFromRadio(new Uint8Array(readBuffer));
+          if (
+            readBuffer.byteLength > 0 &&
+            !this.handleReadBuffer(new Uint8Array(readBuffer), batch)
+          ) {
+            batch = false;
           }
         })
         .catch((e: Error) => {
           this.pendingRequest = false;
+          readBuffer = new ArrayBuffer(0);
           this.log.error(
             Types.Emitter[Types.Emitter.ReadFromRadio],
             `❌ ${e.message}`,
           );
 
-          this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceReconnecting);
+          this.handleConnectionLost();
         });
     }
   }
 
+  /**
+   * Processes the body of a fromradio response, splitting batch responses
+   * into individual messages. Returns `false` for a batch that cannot be
+   * split, it is dropped as the messages within cannot be told apart and the
+   * rest of the read falls back to single reads.
+   */
+  private handleReadBuffer(data: Uint8Array, batch: boolean): boolean {
+    if (!batch) {
+      this.handleFromRadio(data);
+      return true;
+    }
+
+    const messages = splitFromRadioBatch(data);
+    if (!messages) {
+      this.log.warn(
+        Types.Emitter[Types.Emitter.ReadFromRadio],
+        `⚠️ Dropping unframed batch response of ${data.length} bytes, firmware does not support \`all=true\`, reading the rest one message at a time`,
+      );
+      return false;
+    }
+    for (const message of messages) {
+      this.handleFromRadio(message);
+    }
+    return true;
+  }
+
   /**
    * Sends supplied protobuf message to the radio
    */
@@ -195,7 +234,7 @@ export class HttpConnection extends MeshDevice {
           Types.Emitter[Types.Emitter.WriteToRadio],
           `❌ ${e.message}`,
         );
-        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceReconnecting);
+        this.handleConnectionLost();
       });
   }
 }
@@ -1,3 +1,9 @@
 export * from "./bleConnection.ts";
 export * from "./httpConnection.ts";
+export * from "./mockConnection.ts";
+export * from "./mqttConnection.ts";
+export * from "./replayConnection.ts";
 export * from "./serialConnection.ts";
+export * from "./streamConnection.ts";
+export * from "./tcpConnection.ts";
+export * from "./webSocketConnection.ts";
@@ -0,0 +1,86 @@
+import { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+import type { MockFirmware } from "../utils/index.ts";
+
+/**
+ * In-memory connection to an emulated device, allows exercising the full
+ * `MeshDevice` API and event system without hardware
+ */
+export class MockConnection extends MeshDevice {
+  /** Defines the connection type as mock */
+  public connType: Types.ConnectionTypeName;
+
+  protected portId: string;
+
+  /** Emulated firmware the connection talks to */
+  public firmware: MockFirmware | undefined;
+
+  /** (ms) Delay applied to every message emitted by the firmware */
+  private latency: number;
+
+  private unsubscribeFirmware: (() => void) | undefined;
+
+  constructor(configId?: number) {
+    super(configId);
+
+    this.log = this.log.getSubLogger({ name: "MockConnection" });
+
+    this.connType = "mock";
+    this.portId = "mock";
+    this.firmware = undefined;
+    this.latency = 0;
+    this.unsubscribeFirmware = undefined;
+
+    this.log.debug(
+      Types.Emitter[Types.Emitter.Constructor],
+      "🔷 MockConnection instantiated",
+    );
+  }
+
+  /**
+   * Connects to the supplied emulated firmware
+   */
+  public async connect({
+    firmware,
+    latency = 0,
+  }: Types.MockConnectionParameters): Promise<void> {
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnecting);
+
+    this.unsubscribeFirmware?.();
+    this.firmware = firmware;
+    this.latency = latency;
+    this.unsubscribeFirmware = firmware.onFromRadio.subscribe((fromRadio) => {
+      setTimeout(() => this.handleFromRadio(fromRadio), this.latency);
+    });
+
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+    this.startConfigure();
+
+    return await Promise.resolve();
+  }
+
+  /** Disconnects from the emulated firmware */
+  public disconnect(): void {
+    this.unsubscribeFirmware?.();
+    this.unsubscribeFirmware = undefined;
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.complete();
+  }
+
+  /** Pings device to check if it is avaliable */
+  public async ping(): Promise<boolean> {
+    return await Promise.resolve(this.unsubscribeFirmware !== undefined);
+  }
+
+  /**
+   * Sends supplied protobuf message to the emulated firmware
+   */
+  protected async writeToRadio(data: Uint8Array): Promise<void> {
+    if (!this.firmware || !this.unsubscribeFirmware) {
+      throw new Error("Mock device is not connected");
+    }
+    this.firmware.handleToRadio(data);
+    return await Promise.resolve();
+  }
+}
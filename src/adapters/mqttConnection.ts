@@ -0,0 +1,374 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { broadcastNum } from "../constants.ts";
+import { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+import {
+  channelHash,
+  decryptPacket,
+  encryptPacket,
+  expandPsk,
+} from "../utils/index.ts";
+
+/** Number of recently seen packets remembered to drop duplicates */
+const seenPacketsLimit = 256;
+
+/**
+ * Joins a mesh through an MQTT broker instead of a radio. Packets are
+ * exchanged as encrypted `ServiceEnvelope`s on the channels' topics.
+ */
+export class MqttConnection extends MeshDevice {
+  /** Defines the connection type as mqtt */
+  public connType: Types.ConnectionTypeName;
+
+  /** Topic prefix the connection publishes and subscribes under */
+  protected portId: string;
+
+  /** Broker client used to exchange envelopes */
+  public client: Types.MqttClient | undefined;
+
+  /** Node number this connection appears as on the mesh */
+  public nodeNum: number;
+
+  private channels: Types.MqttChannel[];
+
+  private longName: string;
+
+  private shortName: string;
+
+  /** `${from}:${id}` of recently handled packets, for deduplication */
+  private seenPackets: string[];
+
+  private unsubscribeClient: (() => void) | undefined;
+
+  constructor(configId?: number) {
+    super(configId);
+
+    this.log = this.log.getSubLogger({ name: "MqttConnection" });
+
+    this.connType = "mqtt";
+    this.portId = "";
+    this.client = undefined;
+    this.nodeNum = crypto.getRandomValues(new Uint32Array(1))[0] ?? 1;
+    this.channels = [];
+    this.longName = "";
+    this.shortName = "";
+    this.seenPackets = [];
+    this.unsubscribeClient = undefined;
+
+    this.log.debug(
+      Types.Emitter[Types.Emitter.Constructor],
+      "🔷 MqttConnection instantiated",
+    );
+  }
+
+  /** Gateway id envelopes are published with, derived from `nodeNum` */
+  public get gatewayId(): string {
+    return `!${this.nodeNum.toString(16).padStart(8, "0")}`;
+  }
+
+  /**
+   * Initiates the connect process, subscribing to all configured channels
+   */
+  public async connect({
+    client,
+    channels,
+    rootTopic = "msh",
+    region = "US",
+    nodeNum,
+    longName,
+    shortName,
+  }: Types.MqttConnectionParameters): Promise<void> {
+    if (channels.length === 0 || channels.length > 8) {
+      throw new Error("Between 1 and 8 channels must be configured");
+    }
+    for (const channel of channels) {
+      expandPsk(channel.psk);
+    }
+
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnecting);
+
+    this.client = client;
+    this.channels = channels;
+    this.portId = `${rootTopic}/${region}/2/e`;
+    this.nodeNum = nodeNum ?? this.nodeNum;
+    this.longName = longName ?? `Meshtastic ${this.gatewayId.slice(-4)}`;
+    this.shortName = shortName ?? this.gatewayId.slice(-4);
+    this.seenPackets = [];
+
+    this.unsubscribeClient?.();
+    this.unsubscribeClient = client.onMessage((topic, payload) => {
+      this.handleEnvelope(topic, payload).catch((e: Error) => {
+        this.log.error(
+          Types.Emitter[Types.Emitter.ReadFromRadio],
+          `❌ ${e.message}`,
+        );
+      });
+    });
+
+    await Promise.all(
+      channels.map((channel) =>
+        client.subscribe(`${this.portId}/${channel.name}/#`),
+      ),
+    )
+      .then(() => {
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+        this.startConfigure();
+      })
+      .catch((e: Error) => {
+        this.log.error(Types.Emitter[Types.Emitter.Connect], `❌ ${e.message}`);
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+      });
+  }
+
+  /** Unsubscribes from all channels and closes the broker client */
+  public async disconnect(): Promise<void> {
+    this.unsubscribeClient?.();
+    this.unsubscribeClient = undefined;
+    await Promise.all(
+      this.channels.map((channel) =>
+        this.client?.unsubscribe(`${this.portId}/${channel.name}/#`),
+      ),
+    ).catch(() => {});
+    await this.client?.end().catch(() => {});
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.complete();
+  }
+
+  /** Pings device to check if it is avaliable */
+  public async ping(): Promise<boolean> {
+    return await Promise.resolve(this.unsubscribeClient !== undefined);
+  }
+
+  /**
+   * Handles supplied protobuf message as the firmware would, publishing mesh
+   * packets to the broker
+   */
+  protected async writeToRadio(data: Uint8Array): Promise<void> {
+    const toRadio = fromBinary(Protobuf.Mesh.ToRadioSchema, data);
+
+    switch (toRadio.payloadVariant.case) {
+      case "wantConfigId": {
+        this.sendConfig(toRadio.payloadVariant.value);
+        break;
+      }
+      case "packet": {
+        await this.publishPacket(toRadio.payloadVariant.value);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+
+  /** Emits a FromRadio message as if it had been received from a device */
+  private emitFromRadio(
+    payloadVariant: Protobuf.Mesh.FromRadio["payloadVariant"],
+  ): void {
+    const fromRadio = toBinary(
+      Protobuf.Mesh.FromRadioSchema,
+      create(Protobuf.Mesh.FromRadioSchema, { payloadVariant }),
+    );
+    setTimeout(() => this.handleFromRadio(fromRadio), 0);
+  }
+
+  /** Emits a routing packet acknowledging or rejecting `requestId` */
+  private emitRoutingResponse(
+    requestId: number,
+    error: Protobuf.Mesh.Routing_Error,
+  ): void {
+    this.emitFromRadio({
+      case: "packet",
+      value: create(Protobuf.Mesh.MeshPacketSchema, {
+        from: this.nodeNum,
+        to: this.nodeNum,
+        rxTime: Math.trunc(Date.now() / 1000),
+        payloadVariant: {
+          case: "decoded",
+          value: {
+            portnum: Protobuf.Portnums.PortNum.ROUTING_APP,
+            requestId,
+            payload: toBinary(
+              Protobuf.Mesh.RoutingSchema,
+              create(Protobuf.Mesh.RoutingSchema, {
+                variant: { case: "errorReason", value: error },
+              }),
+            ),
+          },
+        },
+      }),
+    });
+  }
+
+  /** Synthesizes the config download a device would send */
+  private sendConfig(configId: number): void {
+    this.emitFromRadio({
+      case: "myInfo",
+      value: create(Protobuf.Mesh.MyNodeInfoSchema, {
+        myNodeNum: this.nodeNum,
+      }),
+    });
+    this.emitFromRadio({
+      case: "nodeInfo",
+      value: create(Protobuf.Mesh.NodeInfoSchema, {
+        num: this.nodeNum,
+        user: {
+          id: this.gatewayId,
+          longName: this.longName,
+          shortName: this.shortName,
+        },
+      }),
+    });
+    this.channels.forEach((channel, index) => {
+      this.emitFromRadio({
+        case: "channel",
+        value: create(Protobuf.Channel.ChannelSchema, {
+          index,
+          role:
+            index === 0
+              ? Protobuf.Channel.Channel_Role.PRIMARY
+              : Protobuf.Channel.Channel_Role.SECONDARY,
+          settings: { name: channel.name, psk: channel.psk },
+        }),
+      });
+    });
+    this.emitFromRadio({ case: "configCompleteId", value: configId });
+  }
+
+  /** Encrypts and publishes a packet sent through `sendPacket` */
+  private async publishPacket(
+    meshPacket: Protobuf.Mesh.MeshPacket,
+  ): Promise<void> {
+    const channel = this.channels[meshPacket.channel];
+
+    if (
+      !this.client ||
+      !channel ||
+      meshPacket.payloadVariant.case !== "decoded" ||
+      meshPacket.to === this.nodeNum
+    ) {
+      this.log.warn(
+        Types.Emitter[Types.Emitter.WriteToRadio],
+        `⚠️ Packet ${meshPacket.id} cannot be delivered over MQTT, dropping`,
+      );
+      if (meshPacket.wantAck) {
+        this.emitRoutingResponse(
+          meshPacket.id,
+          Protobuf.Mesh.Routing_Error.NO_INTERFACE,
+        );
+      }
+      return;
+    }
+
+    const encrypted = await encryptPacket(
+      toBinary(Protobuf.Mesh.DataSchema, meshPacket.payloadVariant.value),
+      expandPsk(channel.psk),
+      meshPacket.id,
+      this.nodeNum,
+    );
+
+    const envelope = create(Protobuf.Mqtt.ServiceEnvelopeSchema, {
+      packet: {
+        ...meshPacket,
+        from: this.nodeNum,
+        channel: channelHash(channel.name, channel.psk),
+        hopLimit: meshPacket.hopLimit || 3,
+        hopStart: meshPacket.hopLimit || 3,
+        payloadVariant: { case: "encrypted", value: encrypted },
+      },
+      channelId: channel.name,
+      gatewayId: this.gatewayId,
+    });
+
+    this.rememberPacket(this.nodeNum, meshPacket.id);
+    await this.client.publish(
+      `${this.portId}/${channel.name}/${this.gatewayId}`,
+      toBinary(Protobuf.Mqtt.ServiceEnvelopeSchema, envelope),
+    );
+
+    /** Broadcasts are implicitly acked once they left for the mesh */
+    if (meshPacket.wantAck && meshPacket.to === broadcastNum) {
+      this.emitRoutingResponse(meshPacket.id, Protobuf.Mesh.Routing_Error.NONE);
+    }
+  }
+
+  /** Decrypts a received envelope and feeds it through the packet pipeline */
+  private async handleEnvelope(
+    topic: string,
+    payload: Uint8Array,
+  ): Promise<void> {
+    if (!topic.startsWith(`${this.portId}/`)) {
+      return;
+    }
+
+    const envelope = fromBinary(Protobuf.Mqtt.ServiceEnvelopeSchema, payload);
+    const meshPacket = envelope.packet;
+    const channelIndex = this.channels.findIndex(
+      (channel) => channel.name === envelope.channelId,
+    );
+    const channel = this.channels[channelIndex];
+
+    if (
+      !meshPacket ||
+      !channel ||
+      envelope.gatewayId === this.gatewayId ||
+      !this.rememberPacket(meshPacket.from, meshPacket.id)
+    ) {
+      return;
+    }
+
+    if (meshPacket.payloadVariant.case === "encrypted") {
+      if (meshPacket.channel !== channelHash(channel.name, channel.psk)) {
+        this.log.debug(
+          Types.Emitter[Types.Emitter.HandleMeshPacket],
+          `🔐 Channel hash mismatch for packet ${meshPacket.id} on ${channel.name}, ignoring.`,
+        );
+        return;
+      }
+
+      const decrypted = await decryptPacket(
+        meshPacket.payloadVariant.value,
+        expandPsk(channel.psk),
+        meshPacket.id,
+        meshPacket.from,
+      );
+      try {
+        meshPacket.payloadVariant = {
+          case: "decoded",
+          value: fromBinary(Protobuf.Mesh.DataSchema, decrypted),
+        };
+      } catch {
+        this.log.debug(
+          Types.Emitter[Types.Emitter.HandleMeshPacket],
+          `🔐 Failed to decrypt packet ${meshPacket.id} on ${channel.name}, ignoring.`,
+        );
+        return;
+      }
+    }
+
+    meshPacket.channel = channelIndex;
+    meshPacket.viaMqtt = true;
+    if (!meshPacket.rxTime) {
+      meshPacket.rxTime = Math.trunc(Date.now() / 1000);
+    }
+
+    this.handleMeshPacket(meshPacket);
+  }
+
+  /**
+   * Remembers a packet as handled, returns `false` if it has been seen before
+   */
+  private rememberPacket(from: number, id: number): boolean {
+    const key = `${from}:${id}`;
+    if (this.seenPackets.includes(key)) {
+      return false;
+    }
+    this.seenPackets.push(key);
+    if (this.seenPackets.length > seenPacketsLimit) {
+      this.seenPackets.shift();
+    }
+    return true;
+  }
+}
@@ -0,0 +1,136 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+import { parseCapture } from "../utils/index.ts";
+
+/**
+ * Replays a capture recorded with `SessionRecorder`, feeding every recorded
+ * FromRadio message back through the regular event pipeline
+ */
+export class ReplayConnection extends MeshDevice {
+  /** Defines the connection type as replay */
+  public connType: Types.ConnectionTypeName;
+
+  protected portId: string;
+
+  /** Set once `disconnect()` has been called, stops the replay */
+  private stopped: boolean;
+
+  /** Pending delay between two replayed messages */
+  private replayTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  /** Ends the pending delay early, so a stopped replay finishes */
+  private endDelay: (() => void) | undefined;
+
+  /** Resolves once every entry of the current capture has been replayed */
+  public finished: Promise<void>;
+
+  constructor(configId?: number) {
+    super(configId);
+
+    this.log = this.log.getSubLogger({ name: "ReplayConnection" });
+
+    this.connType = "replay";
+    this.portId = "";
+    this.stopped = false;
+    this.replayTimeout = undefined;
+    this.endDelay = undefined;
+    this.finished = Promise.resolve();
+
+    this.log.debug(
+      Types.Emitter[Types.Emitter.Constructor],
+      "🔷 ReplayConnection instantiated",
+    );
+  }
+
+  /**
+   * Starts replaying the supplied capture, at recorded speed by default
+   */
+  public async connect({
+    capture,
+    speed = 1,
+  }: Types.ReplayConnectionParameters): Promise<void> {
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnecting);
+
+    const entries =
+      typeof capture === "string" ? parseCapture(capture) : capture;
+
+    /** Adopt the recorded config id so `configCompleteId` validates */
+    for (const entry of entries) {
+      if (entry.direction !== "toRadio") {
+        continue;
+      }
+      const toRadio = fromBinary(Protobuf.Mesh.ToRadioSchema, entry.data);
+      if (toRadio.payloadVariant.case === "wantConfigId") {
+        this.configId = toRadio.payloadVariant.value;
+        break;
+      }
+    }
+
+    this.stopped = false;
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConfiguring);
+
+    this.finished = this.replay(
+      entries.filter((entry) => entry.direction === "fromRadio"),
+      speed,
+    );
+
+    return await Promise.resolve();
+  }
+
+  /** Stops the replay */
+  public disconnect(): void {
+    this.stopped = true;
+    clearTimeout(this.replayTimeout);
+    this.endDelay?.();
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.complete();
+  }
+
+  /** Pings device to check if it is avaliable */
+  public async ping(): Promise<boolean> {
+    return await Promise.resolve(!this.stopped);
+  }
+
+  /**
+   * Discards supplied protobuf message, a capture cannot be written to
+   */
+  protected async writeToRadio(data: Uint8Array): Promise<void> {
+    this.log.trace(
+      Types.Emitter[Types.Emitter.WriteToRadio],
+      `Discarding ${data.length} bytes written during replay`,
+    );
+    return await Promise.resolve();
+  }
+
+  private async replay(
+    entries: Types.CaptureEntry[],
+    speed: number,
+  ): Promise<void> {
+    let previousTime = entries[0]?.time ?? 0;
+
+    for (const entry of entries) {
+      const delay = speed > 0 ? (entry.time - previousTime) / speed : 0;
+      previousTime = entry.time;
+
+      await new Promise<void>((resolve) => {
+        this.endDelay = resolve;
+        this.replayTimeout = setTimeout(resolve, Math.max(delay, 0));
+      });
+      if (this.stopped) {
+        return;
+      }
+
+      try {
+        this.handleFromRadio(entry.data);
+      } catch (e) {
+        this.log.error(
+          Types.Emitter[Types.Emitter.HandleFromRadio],
+          `❌ Failed to replay entry recorded at ${entry.time}: ${(e as Error).message}`,
+        );
+      }
+    }
+  }
+}
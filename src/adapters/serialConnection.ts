@@ -1,7 +1,11 @@
 import { SimpleEventDispatcher } from "ste-simple-events";
 import { MeshDevice } from "../meshDevice.ts";
 import * as Types from "../types.ts";
-import { transformHandler } from "../utils/index.ts";
+import {
+  FrameDecoder,
+  StreamCodec,
+  transformHandler,
+} from "../utils/index.ts";
 
 /** Allows to connect to a Meshtastic device over WebSerial */
 export class SerialConnection extends MeshDevice {
@@ -18,6 +22,9 @@ export class SerialConnection extends MeshDevice {
   /** Transform stream for parsing raw serial data */
   private transformer?: TransformStream<Uint8Array, Uint8Array>;
 
+  /** Decodes frames from the raw stream, exposes decoding statistics */
+  public readonly frameDecoder: FrameDecoder;
+
   /** Should locks be prevented */
   private preventLock?: boolean;
 
@@ -28,6 +35,11 @@ export class SerialConnection extends MeshDevice {
   /* Reference for the heartbeat ping interval so it can be canceled on disconnect. */ 
   private heartbeatInterval?: ReturnType<typeof setInterval> | undefined;
 
+  /** Options the port was opened with, reused when reconnecting */
+  private baudRate: number;
+
+  private concurrentLogOutput: boolean;
+
   /**
    * Fires when `disconnect()` is called, used to instruct serial port and
    * readers to release there locks
@@ -45,9 +57,12 @@ export class SerialConnection extends MeshDevice {
     this.portId = "";
     this.port = undefined;
     this.transformer = undefined;
+    this.frameDecoder = new FrameDecoder();
     this.onReleaseEvent = new SimpleEventDispatcher<boolean>();
     this.preventLock = false;
     this.heartbeatInterval = undefined;
+    this.baudRate = 115200;
+    this.concurrentLogOutput = false;
 
     this.log.debug(
       Types.Emitter[Types.Emitter.Constructor],
@@ -124,55 +139,80 @@ export class SerialConnection extends MeshDevice {
         Types.Emitter[Types.Emitter.Connect],
         "Device disconnected",
       );
-      this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
-      this.complete();
+      this.handleConnectionLost();
     });
 
-    this.preventLock = false;
+    this.baudRate = baudRate;
+    this.concurrentLogOutput = concurrentLogOutput;
 
     /** Connect to device */
-    await this.port
-      .open({
-        baudRate,
-      })
+    await this.openPort()
       .then(() => {
-        if (this.port?.readable && this.port.writable) {
-          this.transformer = transformHandler(
-            this.log,
-            this.onReleaseEvent,
-            this.events.onDeviceDebugLog,
-            concurrentLogOutput,
-          );
-
-          this.pipePromise = this.port.readable.pipeTo(
-            this.transformer.writable,
-          );
-          const reader = (this.readerHack =
-            this.transformer.readable.getReader());
-          this.readFromRadio(reader);
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
 
-          this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+        this.startConfigure();
 
-          this.configure().catch(() => {
-            // TODO: FIX, workaround for `wantConfigId` not getting acks.
+        // Set up an interval to send a heartbeat ping once every minute.
+        // The firmware requires at least one ping per 15 minutes, so this should be more than enough.
+        this.heartbeatInterval = setInterval(() => {
+          this.heartbeat().catch((err) => {
+            console.error('Heartbeat error', err);
           });
-
-          // Set up an interval to send a heartbeat ping once every minute.
-          // The firmware requires at least one ping per 15 minutes, so this should be more than enough.
-          this.heartbeatInterval = setInterval(() => {
-            this.heartbeat().catch((err) => {
-              console.error('Heartbeat error', err);
-            });
-          }, 60*1000);
-        } else {
-          console.log("not readable or writable");
-        }
+        }, 60*1000);
       })
       .catch((e: Error) => {
         this.log.error(Types.Emitter[Types.Emitter.Connect], `❌ ${e.message}`);
       });
   }
 
+  /**
+   * Opens the serial port and starts reading from it, throws if the port is
+   * not readable and writable afterwards
+   */
+  private async openPort(): Promise<void> {
+    if (!this.port) {
+      throw new Error("No serial port selected");
+    }
+
+    this.preventLock = false;
+
+    await this.port.open({
+      baudRate: this.baudRate,
+    });
+
+    if (!this.port.readable || !this.port.writable) {
+      throw new Error("Serial port is not readable or writable");
+    }
+
+    this.transformer = transformHandler(
+      this.log,
+      this.onReleaseEvent,
+      this.events.onDeviceDebugLog,
+      this.concurrentLogOutput,
+      this.frameDecoder,
+    );
+
+    this.pipePromise = this.port.readable.pipeTo(this.transformer.writable);
+    this.readerHack = this.transformer.readable.getReader();
+    this.readFromRadio(this.readerHack);
+
+    const writer = this.port.writable.getWriter();
+    await writer.write(StreamCodec.wakePreamble);
+    writer.releaseLock();
+  }
+
+  /** Releases the stale streams and reopens the serial port */
+  protected async reopen(): Promise<void> {
+    this.preventLock = true;
+    await this.readerHack?.cancel().catch(() => {});
+    await this.pipePromise?.catch(() => {});
+    this.readerHack?.releaseLock();
+    if (this.port?.readable) {
+      await this.port.close().catch(() => {});
+    }
+    await this.openPort();
+  }
+
   /** Disconnects from the serial port */
   public async reconnect(): Promise<void> {
     await this.connect({
@@ -183,6 +223,7 @@ export class SerialConnection extends MeshDevice {
 
   /** Disconnects from the serial port */
   public async disconnect(): Promise<SerialPort | undefined> {
+    this.cancelReconnect();
     // this.onReleaseEvent.dispatch(true);
     // HACK: Inline onReleaseEvent
     // -- This should be used as an event, like intened
@@ -220,9 +261,7 @@ export class SerialConnection extends MeshDevice {
     }
     const writer = this.port?.writable?.getWriter();
 
-    await writer?.write(
-      new Uint8Array([0x94, 0xc3, 0x00, data.length, ...data]),
-    );
+    await writer?.write(StreamCodec.encodeFrame(data));
     writer?.releaseLock();
   }
 }
@@ -0,0 +1,195 @@
+import { SimpleEventDispatcher } from "ste-simple-events";
+import { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+import { FrameDecoder, StreamCodec, transformHandler } from "../utils/index.ts";
+
+/**
+ * Allows to connect to a Meshtastic device over any pair of byte streams, such
+ * as Node serialport streams, child process pipes, PTYs or test harnesses
+ */
+export class StreamConnection extends MeshDevice {
+  /** Defines the connection type as stream */
+  public connType: Types.ConnectionTypeName;
+
+  protected portId: string;
+
+  /** Stream the device writes framed FromRadio messages to */
+  public readable: ReadableStream<Uint8Array> | undefined;
+
+  /** Stream framed ToRadio messages are written to */
+  public writable: WritableStream<Uint8Array> | undefined;
+
+  private reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+  private writer: WritableStreamDefaultWriter<Uint8Array> | undefined;
+
+  /** Transform stream for parsing raw stream data */
+  private transformer?: TransformStream<Uint8Array, Uint8Array>;
+
+  /** Decodes frames from the raw stream, exposes decoding statistics */
+  public readonly frameDecoder: FrameDecoder;
+
+  /** Set once `disconnect()` has been called, stops the read loop */
+  private preventLock: boolean;
+
+  /** Resolves once the readable has been fully piped into the transformer */
+  private pipePromise?: Promise<void>;
+
+  /* Reference for the heartbeat ping interval so it can be canceled on disconnect. */
+  private heartbeatInterval?: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Fires when `disconnect()` is called, used to terminate the transform
+   * stream
+   *
+   * @event onReleaseEvent
+   */
+  private readonly onReleaseEvent: SimpleEventDispatcher<boolean>;
+
+  constructor(configId?: number) {
+    super(configId);
+
+    this.log = this.log.getSubLogger({ name: "StreamConnection" });
+
+    this.connType = "stream";
+    this.portId = "";
+    this.readable = undefined;
+    this.writable = undefined;
+    this.reader = undefined;
+    this.writer = undefined;
+    this.transformer = undefined;
+    this.frameDecoder = new FrameDecoder();
+    this.preventLock = false;
+    this.heartbeatInterval = undefined;
+    this.onReleaseEvent = new SimpleEventDispatcher<boolean>();
+
+    this.log.debug(
+      Types.Emitter[Types.Emitter.Constructor],
+      "🔷 StreamConnection instantiated",
+    );
+  }
+
+  /**
+   * Reads packets from the transformed stream and processes them.
+   */
+  private async readFromRadio(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+  ): Promise<void> {
+    while (!this.preventLock) {
+      const { value, done } = await reader.read().catch(() => {
+        this.log.debug(
+          Types.Emitter[Types.Emitter.ReadFromRadio],
+          "Releasing reader",
+        );
+        return { value: undefined, done: true };
+      });
+      if (done) {
+        break;
+      }
+      if (value) {
+        this.handleFromRadio(value);
+      }
+    }
+
+    if (!this.preventLock) {
+      this.log.info(
+        Types.Emitter[Types.Emitter.ReadFromRadio],
+        "Stream ended, device disconnected",
+      );
+      this.cleanup();
+      this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+      this.complete();
+    }
+  }
+
+  /**
+   * Initiates the connect process to a Meshtastic device over the supplied
+   * streams
+   */
+  public async connect({
+    readable,
+    writable,
+    concurrentLogOutput = false,
+  }: Types.StreamConnectionParameters): Promise<void> {
+    /** Set device state to connecting */
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnecting);
+
+    this.readable = readable;
+    this.writable = writable;
+    this.preventLock = false;
+
+    this.transformer = transformHandler(
+      this.log,
+      this.onReleaseEvent,
+      this.events.onDeviceDebugLog,
+      concurrentLogOutput,
+      this.frameDecoder,
+    );
+
+    this.pipePromise = readable.pipeTo(this.transformer.writable);
+    this.writer = writable.getWriter();
+    this.reader = this.transformer.readable.getReader();
+    this.readFromRadio(this.reader);
+
+    this.writer.write(StreamCodec.wakePreamble).catch(() => {});
+
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+    this.startConfigure();
+
+    // The firmware drops idle API clients after 15 minutes, ping once every minute.
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeat().catch((e: Error) => {
+        this.log.warn(
+          Types.Emitter[Types.Emitter.Ping],
+          "⚠️ Heartbeat failed",
+          e,
+        );
+      });
+    }, 60 * 1000);
+
+    return await Promise.resolve();
+  }
+
+  /**
+   * Disconnects from the device, releasing the locks held on the supplied
+   * streams
+   */
+  public async disconnect(): Promise<void> {
+    this.cleanup();
+    await this.reader?.cancel().catch(() => {});
+    await this.pipePromise?.catch(() => {});
+    this.reader?.releaseLock();
+    this.writer?.releaseLock();
+    this.reader = undefined;
+    this.writer = undefined;
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.complete();
+  }
+
+  /** Pings device to check if it is avaliable */
+  public async ping(): Promise<boolean> {
+    return await Promise.resolve(this.writer !== undefined);
+  }
+
+  /** Stops the read loop, heartbeat and transform stream */
+  private cleanup(): void {
+    this.preventLock = true;
+    this.onReleaseEvent.dispatch(true);
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+  }
+
+  /**
+   * Sends supplied protobuf message to the radio
+   */
+  protected async writeToRadio(data: Uint8Array): Promise<void> {
+    if (!this.writer) {
+      throw new Error("Stream is not connected");
+    }
+
+    await this.writer.write(StreamCodec.encodeFrame(data));
+  }
+}
@@ -0,0 +1,241 @@
+import type { Socket } from "node:net";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+import { FrameDecoder, StreamCodec, transformHandler } from "../utils/index.ts";
+
+/**
+ * Allows to connect to a Meshtastic device over a raw TCP stream, as exposed
+ * by `meshtasticd` and WiFi enabled nodes. Requires a runtime providing
+ * `node:net`.
+ */
+export class TcpConnection extends MeshDevice {
+  /** Defines the connection type as tcp */
+  public connType: Types.ConnectionTypeName;
+
+  /** `host:port` of the device that is to be connected to. */
+  protected portId: string;
+
+  /** Socket used to communicate with device. */
+  public socket: Socket | undefined;
+
+  private reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+  /** Transform stream for parsing raw tcp data */
+  private transformer?: TransformStream<Uint8Array, Uint8Array>;
+
+  /** Decodes frames from the raw stream, exposes decoding statistics */
+  public readonly frameDecoder: FrameDecoder;
+
+  /** Set once `disconnect()` has been called, stops the read loop */
+  private preventLock: boolean;
+
+  /* Reference for the heartbeat ping interval so it can be canceled on disconnect. */
+  private heartbeatInterval?: ReturnType<typeof setInterval> | undefined;
+
+  /** Options the socket was opened with, reused when reconnecting */
+  private host: string;
+
+  private port: number;
+
+  private concurrentLogOutput: boolean;
+
+  /**
+   * Fires when `disconnect()` is called, used to terminate the transform
+   * stream
+   *
+   * @event onReleaseEvent
+   */
+  private readonly onReleaseEvent: SimpleEventDispatcher<boolean>;
+
+  constructor(configId?: number) {
+    super(configId);
+
+    this.log = this.log.getSubLogger({ name: "TcpConnection" });
+
+    this.connType = "tcp";
+    this.portId = "";
+    this.socket = undefined;
+    this.reader = undefined;
+    this.transformer = undefined;
+    this.frameDecoder = new FrameDecoder();
+    this.preventLock = false;
+    this.heartbeatInterval = undefined;
+    this.host = "";
+    this.port = 4403;
+    this.concurrentLogOutput = false;
+    this.onReleaseEvent = new SimpleEventDispatcher<boolean>();
+
+    this.log.debug(
+      Types.Emitter[Types.Emitter.Constructor],
+      "🔷 TcpConnection instantiated",
+    );
+  }
+
+  /**
+   * Reads packets from transformed tcp stream and processes them.
+   */
+  private async readFromRadio(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+  ): Promise<void> {
+    while (!this.preventLock) {
+      const { value, done } = await reader.read().catch(() => {
+        this.log.debug(
+          Types.Emitter[Types.Emitter.ReadFromRadio],
+          "Releasing reader",
+        );
+        return { value: undefined, done: true };
+      });
+      if (done) {
+        break;
+      }
+      if (value) {
+        this.handleFromRadio(value);
+      }
+    }
+  }
+
+  /**
+   * Initiates the connect process to a Meshtastic device via TCP
+   */
+  public async connect({
+    host,
+    port = 4403,
+    concurrentLogOutput = false,
+  }: Types.TcpConnectionParameters): Promise<void> {
+    /** Set device state to connecting */
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnecting);
+
+    this.portId = `${host}:${port}`;
+    this.host = host;
+    this.port = port;
+    this.concurrentLogOutput = concurrentLogOutput;
+
+    /** Connect to device */
+    await this.openSocket()
+      .then(() => {
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+        this.startConfigure();
+      })
+      .catch((e: Error) => {
+        this.log.error(Types.Emitter[Types.Emitter.Connect], `❌ ${e.message}`);
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+      });
+  }
+
+  /** Opens a new socket to the device */
+  protected reopen(): Promise<void> {
+    return this.openSocket();
+  }
+
+  /** Opens the socket and starts reading from it and sending heartbeats */
+  private async openSocket(): Promise<void> {
+    const { createConnection } = await import("node:net");
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const socket = createConnection(
+        { host: this.host, port: this.port },
+        () => {
+          socket.off("error", reject);
+          resolve(socket);
+        },
+      );
+      socket.once("error", reject);
+    });
+
+    this.socket = socket;
+    this.preventLock = false;
+    socket.setNoDelay(true);
+
+    this.transformer = transformHandler(
+      this.log,
+      this.onReleaseEvent,
+      this.events.onDeviceDebugLog,
+      this.concurrentLogOutput,
+      this.frameDecoder,
+    );
+
+    const writer = this.transformer.writable.getWriter();
+    socket.on("data", (chunk: Uint8Array) => {
+      writer.write(chunk).catch(() => {});
+    });
+
+    /** Setup event listners */
+    socket.on("error", (e: Error) => {
+      this.log.error(Types.Emitter[Types.Emitter.Connect], `❌ ${e.message}`);
+    });
+    socket.on("close", () => {
+      if (this.preventLock || this.socket !== socket) {
+        return;
+      }
+      this.log.info(
+        Types.Emitter[Types.Emitter.Connect],
+        "Device disconnected",
+      );
+      this.cleanup();
+      this.handleConnectionLost();
+    });
+
+    this.reader = this.transformer.readable.getReader();
+    this.readFromRadio(this.reader);
+
+    socket.write(StreamCodec.wakePreamble);
+
+    // The firmware drops idle API clients after 15 minutes, ping once every minute.
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeat().catch((e: Error) => {
+        this.log.warn(
+          Types.Emitter[Types.Emitter.Ping],
+          "⚠️ Heartbeat failed",
+          e,
+        );
+      });
+    }, 60 * 1000);
+  }
+
+  /** Disconnects from the Meshtastic device */
+  public async disconnect(): Promise<void> {
+    this.cancelReconnect();
+    this.cleanup();
+    await this.reader?.cancel().catch(() => {});
+    this.reader?.releaseLock();
+    this.reader = undefined;
+    this.socket?.destroy();
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.complete();
+  }
+
+  /** Pings device to check if it is avaliable */
+  public async ping(): Promise<boolean> {
+    return await Promise.resolve(
+      this.socket !== undefined && !this.socket.destroyed,
+    );
+  }
+
+  /** Stops the read loop, heartbeat and transform stream */
+  private cleanup(): void {
+    this.preventLock = true;
+    this.onReleaseEvent.dispatch(true);
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+  }
+
+  /**
+   * Sends supplied protobuf message to the radio
+   */
+  protected async writeToRadio(data: Uint8Array): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      throw new Error("Socket is not connected");
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      socket.write(StreamCodec.encodeFrame(data), (err) =>
+        err ? reject(err) : resolve(),
+      );
+    });
+  }
+}
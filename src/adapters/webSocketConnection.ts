@@ -0,0 +1,118 @@
+import { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+
+/**
+ * Allows to connect to a device shared by a `MultiplexServer` over WebSocket.
+ * Every WebSocket message carries exactly one ToRadio or FromRadio message.
+ */
+export class WebSocketConnection extends MeshDevice {
+  /** Defines the connection type as websocket */
+  public connType: Types.ConnectionTypeName;
+
+  /** URL of the server that is to be connected to. */
+  protected portId: string;
+
+  /** WebSocket used to communicate with the server */
+  public socket: WebSocket | undefined;
+
+  constructor(configId?: number) {
+    super(configId);
+
+    this.log = this.log.getSubLogger({ name: "WebSocketConnection" });
+
+    this.connType = "websocket";
+    this.portId = "";
+    this.socket = undefined;
+
+    this.log.debug(
+      Types.Emitter[Types.Emitter.Constructor],
+      "🔷 WebSocketConnection instantiated",
+    );
+  }
+
+  /**
+   * Initiates the connect process to a multiplexing server
+   */
+  public async connect({
+    url,
+  }: Types.WebSocketConnectionParameters): Promise<void> {
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnecting);
+
+    this.portId = url;
+
+    await this.openSocket()
+      .then(() => {
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+        this.startConfigure();
+      })
+      .catch((e: Error) => {
+        this.log.error(Types.Emitter[Types.Emitter.Connect], `❌ ${e.message}`);
+        this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+      });
+  }
+
+  /** Opens a new WebSocket to the server */
+  protected reopen(): Promise<void> {
+    return this.openSocket();
+  }
+
+  private async openSocket(): Promise<void> {
+    const socket = await new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(this.portId);
+      socket.binaryType = "arraybuffer";
+      socket.addEventListener("open", () => resolve(socket), { once: true });
+      socket.addEventListener(
+        "error",
+        () => reject(new Error(`Failed to connect to ${this.portId}`)),
+        { once: true },
+      );
+    });
+
+    this.socket = socket;
+
+    /** Setup event listners */
+    socket.addEventListener("message", (event: MessageEvent) => {
+      if (event.data instanceof ArrayBuffer) {
+        this.handleFromRadio(new Uint8Array(event.data));
+      }
+    });
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.log.info(
+        Types.Emitter[Types.Emitter.Connect],
+        "Server disconnected",
+      );
+      this.socket = undefined;
+      this.handleConnectionLost();
+    });
+  }
+
+  /** Disconnects from the server */
+  public disconnect(): void {
+    this.cancelReconnect();
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.close();
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+    this.complete();
+  }
+
+  /** Pings device to check if it is avaliable */
+  public async ping(): Promise<boolean> {
+    return await Promise.resolve(this.socket?.readyState === WebSocket.OPEN);
+  }
+
+  /**
+   * Sends supplied protobuf message to the server
+   */
+  protected async writeToRadio(data: Uint8Array): Promise<void> {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error("WebSocket is not connected");
+    }
+    this.socket.send(data);
+    return await Promise.resolve();
+  }
+}
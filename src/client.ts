@@ -1,7 +1,13 @@
 import {
   BleConnection,
   HttpConnection,
+  MockConnection,
+  MqttConnection,
+  ReplayConnection,
   SerialConnection,
+  StreamConnection,
+  TcpConnection,
+  WebSocketConnection,
 } from "./adapters/index.ts";
 import type * as Types from "./types.ts";
 
@@ -36,6 +42,33 @@ export class Client {
     return httpConnection;
   }
 
+  /**
+   * Creates a new connection interface to an emulated device
+   */
+  public createMockConnection(configId?: number): MockConnection {
+    const mockConnection = new MockConnection(configId);
+    this.deviceInterfaces.push(mockConnection);
+    return mockConnection;
+  }
+
+  /**
+   * Creates a new connection interface joining a mesh through an MQTT broker
+   */
+  public createMqttConnection(configId?: number): MqttConnection {
+    const mqttConnection = new MqttConnection(configId);
+    this.deviceInterfaces.push(mqttConnection);
+    return mqttConnection;
+  }
+
+  /**
+   * Creates a new connection interface replaying a recorded session
+   */
+  public createReplayConnection(configId?: number): ReplayConnection {
+    const replayConnection = new ReplayConnection(configId);
+    this.deviceInterfaces.push(replayConnection);
+    return replayConnection;
+  }
+
   /**
    * Creates a new Serial connection interface
    */
@@ -45,6 +78,33 @@ export class Client {
     return serialConnection;
   }
 
+  /**
+   * Creates a new connection interface over a generic stream pair
+   */
+  public createStreamConnection(configId?: number): StreamConnection {
+    const streamConnection = new StreamConnection(configId);
+    this.deviceInterfaces.push(streamConnection);
+    return streamConnection;
+  }
+
+  /**
+   * Creates a new TCP connection interface
+   */
+  public createTcpConnection(configId?: number): TcpConnection {
+    const tcpConnection = new TcpConnection(configId);
+    this.deviceInterfaces.push(tcpConnection);
+    return tcpConnection;
+  }
+
+  /**
+   * Creates a new WebSocket connection interface to a multiplexing server
+   */
+  public createWebSocketConnection(configId?: number): WebSocketConnection {
+    const webSocketConnection = new WebSocketConnection(configId);
+    this.deviceInterfaces.push(webSocketConnection);
+    return webSocketConnection;
+  }
+
   /**
    * Adds an already created connection interface to the client
    */
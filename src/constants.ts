@@ -19,6 +19,15 @@ export const broadcastNum = 0xffffffff;
 /** Minimum device firmware version supported by this version of the library. */
 export const minFwVer = 2.2;
 
+/** Number of channel slots on a device */
+export const maxChannels = 8;
+
+/** Longest channel name accepted by the firmware, in bytes */
+export const maxChannelNameLength = 11;
+
+/** Longest text sent in a single packet, in bytes */
+export const maxTextMessageLength = 200;
+
 export const Constants = {
   ToRadioUuid,
   FromRadioUuid,
@@ -26,4 +35,7 @@ export const Constants = {
   ServiceUuid,
   broadcastNum,
   minFwVer,
+  maxChannels,
+  maxChannelNameLength,
+  maxTextMessageLength,
 };
@@ -5,7 +5,26 @@ import * as Protobuf from "@meshtastic/protobufs";
 
 import { broadcastNum, minFwVer } from "./constants.ts";
 import * as Types from "./types.ts";
-import { EventSystem, Queue, Xmodem } from "./utils/index.ts";
+import {
+  ChannelKeyring,
+  DeliveryTracker,
+  DeviceConfig,
+  EventSystem,
+  KeyDirectory,
+  NodeDB,
+  Queue,
+  ReconnectPolicy,
+  RemoteAdmin,
+  StoreForwardClient,
+  TextReassembler,
+  Xmodem,
+  checkValidation,
+  splitText,
+  validateChannel,
+  validateConfig,
+  validateModuleConfig,
+  validateOwner,
+} from "./utils/index.ts";
 
 /** Base class for connection methods to extend */
 export abstract class MeshDevice {
@@ -14,8 +33,11 @@ export abstract class MeshDevice {
 
   protected abstract portId: string;
 
-  /** Logs to the console and the logging event emitter */
-  protected log: Logger<unknown>;
+  /**
+   * Logs to the console and the logging event emitter, utilities attached to
+   * the device log through sub loggers of it
+   */
+  public log: Logger<unknown>;
 
   /** Describes the current state of the device */
   protected deviceStatus: Types.DeviceStatusEnum;
@@ -42,6 +64,47 @@ export abstract class MeshDevice {
 
   public xModem: Xmodem;
 
+  /** Everything known about the nodes on the mesh, kept up to date from events */
+  public nodeDB: NodeDB;
+
+  /** Public keys announced by nodes, used for PKI encrypted direct messages */
+  public keyDirectory: KeyDirectory;
+
+  /** Channel keys tried on packets the device forwards still encrypted */
+  public keyring: ChannelKeyring;
+
+  /** Config, module config and channels last reported by the device */
+  public deviceConfig: DeviceConfig;
+
+  /** Delivery state of every packet sent through the queue */
+  public deliveryTracker: DeliveryTracker;
+
+  /** Store & Forward routers heard on the mesh and history requests */
+  public storeForward: StoreForwardClient;
+
+  /** Handles of remotely administered nodes, keyed by node number */
+  private remoteAdmins: Map<number, RemoteAdmin>;
+
+  /** Joins texts sent in parts before they are dispatched */
+  private textReassembler: TextReassembler;
+
+  /**
+   * Policy used to restore the connection when it is lost unexpectedly, set
+   * to `undefined` to disable automatic reconnection
+   */
+  public reconnectPolicy: ReconnectPolicy | undefined;
+
+  /**
+   * Validate config, module config, channels and owner against the firmware's
+   * rules before sending them, rejecting invalid ones
+   */
+  public validateSettings: boolean;
+
+  /** Set while a lost connection is being re-established */
+  private reconnecting: boolean;
+
+  private reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+
   constructor(configId?: number) {
     this.log = new Logger({
       name: "iMeshDevice",
@@ -57,6 +120,20 @@ export abstract class MeshDevice {
     this.queue = new Queue();
     this.events = new EventSystem();
     this.xModem = new Xmodem(this.sendRaw.bind(this)); //TODO: try wihtout bind
+    this.nodeDB = new NodeDB(this.events);
+    this.keyDirectory = new KeyDirectory(this.events);
+    this.keyring = new ChannelKeyring();
+    this.deviceConfig = new DeviceConfig(this);
+    this.deliveryTracker = new DeliveryTracker(this);
+    this.storeForward = new StoreForwardClient(this);
+    this.remoteAdmins = new Map();
+    this.textReassembler = new TextReassembler((message) =>
+      this.events.onMessagePacket.dispatch(message),
+    );
+    this.reconnectPolicy = new ReconnectPolicy();
+    this.validateSettings = true;
+    this.reconnecting = false;
+    this.reconnectTimeout = undefined;
 
     this.events.onDeviceStatus.subscribe((status) => {
       this.deviceStatus = status;
@@ -91,13 +168,22 @@ export abstract class MeshDevice {
   protected abstract ping(): Promise<boolean>;
 
   /**
-   * Sends a text over the radio
+   * Sends a text over the radio, optionally as a reply to `replyId`. Setting
+   * `emoji` sends the text as an emoji reaction to `replyId`. With `split`,
+   * texts longer than `maxTextMessageLength` are sent as numbered parts that
+   * are reassembled on receipt, resolving with the id of the last part.
+   * `pkiEncrypted` encrypts a direct message with the destination's public
+   * key, see `sendPacket`.
    */
   public async sendText(
     text: string,
     destination?: Types.Destination,
     wantAck?: boolean,
     channel?: Types.ChannelNumber,
+    replyId?: number,
+    emoji?: number,
+    split = false,
+    pkiEncrypted = false,
   ): Promise<number> {
     this.log.debug(
       Types.Emitter[Types.Emitter.SendText],
@@ -108,15 +194,23 @@ export abstract class MeshDevice {
 
     const enc = new TextEncoder();
 
-    return await this.sendPacket(
-      enc.encode(text),
-      Protobuf.Portnums.PortNum.TEXT_MESSAGE_APP,
-      destination ?? "broadcast",
-      channel,
-      wantAck,
-      false,
-      true,
+    /** Parts are queued in order before any of them is awaited */
+    const ids = (split ? splitText(text) : [text]).map((part) =>
+      this.sendPacket(
+        enc.encode(part),
+        Protobuf.Portnums.PortNum.TEXT_MESSAGE_APP,
+        destination ?? "broadcast",
+        channel,
+        wantAck,
+        false,
+        true,
+        replyId,
+        emoji,
+        pkiEncrypted,
+      ),
     );
+
+    return (await Promise.all(ids)).at(-1) ?? 0;
   }
 
   /**
@@ -147,7 +241,9 @@ export abstract class MeshDevice {
   }
 
   /**
-   * Sends packet over the radio
+   * Sends packet over the radio. With `pkiEncrypted` a direct packet is
+   * encrypted with the destination's public key from `keyDirectory` instead
+   * of the channel key, requiring firmware 2.5 or later on both nodes.
    */
   public async sendPacket(
     byteData: Uint8Array,
@@ -159,12 +255,25 @@ export abstract class MeshDevice {
     echoResponse = false,
     replyId?: number,
     emoji?: number,
+    pkiEncrypted = false,
   ): Promise<number> {
     this.log.trace(
       Types.Emitter[Types.Emitter.SendPacket],
       `📤 Sending ${Protobuf.Portnums.PortNum[portNum]} to ${destination}`,
     );
 
+    let publicKey = new Uint8Array();
+    if (pkiEncrypted) {
+      const key =
+        typeof destination === "number"
+          ? this.keyDirectory.getKey(destination)
+          : undefined;
+      if (!key) {
+        throw new Error(`No public key known for destination ${destination}`);
+      }
+      publicKey = key;
+    }
+
     const meshPacket = create(Protobuf.Mesh.MeshPacketSchema, {
       payloadVariant: {
         case: "decoded",
@@ -189,6 +298,8 @@ export abstract class MeshDevice {
       id: this.generateRandId(),
       wantAck: wantAck,
       channel,
+      pkiEncrypted,
+      publicKey,
     });
 
     const toRadioMessage = create(Protobuf.Mesh.ToRadioSchema, {
@@ -202,18 +313,22 @@ export abstract class MeshDevice {
       meshPacket.rxTime = Math.trunc(new Date().getTime() / 1000);
       this.handleMeshPacket(meshPacket);
     }
+    /** Nothing answers packets that want neither an ACK nor a response */
     return await this.sendRaw(
       toBinary(Protobuf.Mesh.ToRadioSchema, toRadioMessage),
       meshPacket.id,
+      !wantAck && !wantResponse,
     );
   }
 
   /**
-   * Sends raw packet over the radio
+   * Sends raw packet over the radio, resolving once it is acknowledged or,
+   * with `resolveOnWrite`, once it is written to the radio
    */
   public async sendRaw(
     toRadio: Uint8Array,
     id: number = this.generateRandId(),
+    resolveOnWrite = false,
   ): Promise<number> {
     if (toRadio.length > 512) {
       throw new Error("Message longer than 512 bytes, it will not be sent!");
@@ -221,10 +336,12 @@ export abstract class MeshDevice {
     this.queue.push({
       id,
       data: toRadio,
+      resolveOnWrite,
     });
 
     await this.queue.processQueue(async (data) => {
       await this.writeToRadio(data);
+      this.events.onRawToRadio.dispatch(data);
     });
 
     return this.queue.wait(id);
@@ -239,6 +356,15 @@ export abstract class MeshDevice {
       `⚙️ Setting config, Variant: ${config.payloadVariant.case ?? "Unknown"}`,
     );
 
+    if (this.validateSettings) {
+      checkValidation(
+        this.log,
+        Types.Emitter.SetConfig,
+        "config",
+        validateConfig(config),
+      );
+    }
+
     if (!this.pendingSettingsChanges) {
       await this.beginEditSettings();
     }
@@ -268,6 +394,15 @@ export abstract class MeshDevice {
       "⚙️ Setting module config",
     );
 
+    if (this.validateSettings) {
+      checkValidation(
+        this.log,
+        Types.Emitter.SetModuleConfig,
+        "module config",
+        validateModuleConfig(moduleConfig),
+      );
+    }
+
     const moduleConfigMessage = create(Protobuf.Admin.AdminMessageSchema, {
       payloadVariant: {
         case: "setModuleConfig",
@@ -305,12 +440,92 @@ export abstract class MeshDevice {
     );
   }
 
+  /**
+   * Gets the canned messages from the radio, the response is emitted through
+   * `onCannedMessagesPacket`
+   */
+  public async getCannedMessages(): Promise<number> {
+    this.log.debug(
+      Types.Emitter[Types.Emitter.GetCannedMessages],
+      "⚙️ Requesting CannedMessages",
+    );
+
+    const getCannedMessagesMessage = create(Protobuf.Admin.AdminMessageSchema, {
+      payloadVariant: {
+        case: "getCannedMessageModuleMessagesRequest",
+        value: true,
+      },
+    });
+
+    return await this.sendPacket(
+      toBinary(Protobuf.Admin.AdminMessageSchema, getCannedMessagesMessage),
+      Protobuf.Portnums.PortNum.ADMIN_APP,
+      "self",
+    );
+  }
+
+  /**
+   * Writes the external notification ringtone, in RTTTL format, to device
+   */
+  public async setRingtone(ringtone: string): Promise<number> {
+    this.log.debug(
+      Types.Emitter[Types.Emitter.SetRingtone],
+      "🔔 Setting ringtone",
+    );
+
+    const setRingtoneMessage = create(Protobuf.Admin.AdminMessageSchema, {
+      payloadVariant: {
+        case: "setRingtoneMessage",
+        value: ringtone,
+      },
+    });
+
+    return await this.sendPacket(
+      toBinary(Protobuf.Admin.AdminMessageSchema, setRingtoneMessage),
+      Protobuf.Portnums.PortNum.ADMIN_APP,
+      "self",
+    );
+  }
+
+  /**
+   * Gets the external notification ringtone from the radio, the response is
+   * emitted through `onRingtonePacket`
+   */
+  public async getRingtone(): Promise<number> {
+    this.log.debug(
+      Types.Emitter[Types.Emitter.GetRingtone],
+      "🔔 Requesting ringtone",
+    );
+
+    const getRingtoneMessage = create(Protobuf.Admin.AdminMessageSchema, {
+      payloadVariant: {
+        case: "getRingtoneRequest",
+        value: true,
+      },
+    });
+
+    return await this.sendPacket(
+      toBinary(Protobuf.Admin.AdminMessageSchema, getRingtoneMessage),
+      Protobuf.Portnums.PortNum.ADMIN_APP,
+      "self",
+    );
+  }
+
   /**
    * Sets devices owner data
    */
   public async setOwner(owner: Protobuf.Mesh.User): Promise<number> {
     this.log.debug(Types.Emitter[Types.Emitter.SetOwner], "👤 Setting owner");
 
+    if (this.validateSettings) {
+      checkValidation(
+        this.log,
+        Types.Emitter.SetOwner,
+        "owner",
+        validateOwner(owner),
+      );
+    }
+
     const setOwnerMessage = create(Protobuf.Admin.AdminMessageSchema, {
       payloadVariant: {
         case: "setOwner",
@@ -334,6 +549,15 @@ export abstract class MeshDevice {
       `📻 Setting Channel: ${channel.index}`,
     );
 
+    if (this.validateSettings) {
+      checkValidation(
+        this.log,
+        Types.Emitter.SetChannel,
+        `channel ${channel.index}`,
+        validateChannel(channel),
+      );
+    }
+
     const setChannelMessage = create(Protobuf.Admin.AdminMessageSchema, {
       payloadVariant: {
         case: "setChannel",
@@ -376,6 +600,32 @@ export abstract class MeshDevice {
     );
   }
 
+  /**
+   * Sets a fixed position for the device, also enables `fixedPosition` in
+   * its position config
+   */
+  public async setFixedPosition(
+    position: Protobuf.Mesh.Position,
+  ): Promise<number> {
+    this.log.debug(
+      Types.Emitter[Types.Emitter.SetFixedPosition],
+      "📍 Setting fixed position",
+    );
+
+    const setFixedPositionMessage = create(Protobuf.Admin.AdminMessageSchema, {
+      payloadVariant: {
+        case: "setFixedPosition",
+        value: position,
+      },
+    });
+
+    return await this.sendPacket(
+      toBinary(Protobuf.Admin.AdminMessageSchema, setFixedPositionMessage),
+      Protobuf.Portnums.PortNum.ADMIN_APP,
+      "self",
+    );
+  }
+
   /**
    * Gets specified channel information from the radio
    */
@@ -528,7 +778,11 @@ export abstract class MeshDevice {
     );
   }
 
-  private async beginEditSettings(): Promise<number> {
+  /**
+   * Starts a settings transaction, changes are only applied and the device
+   * only reboots once `commitEditSettings` is called
+   */
+  public async beginEditSettings(): Promise<number> {
     this.events.onPendingSettingsChange.dispatch(true);
 
     const beginEditSettings = create(Protobuf.Admin.AdminMessageSchema, {
@@ -583,7 +837,10 @@ export abstract class MeshDevice {
       toBinary(Protobuf.Admin.AdminMessageSchema, resetNodes),
       Protobuf.Portnums.PortNum.ADMIN_APP,
       "self",
-    );
+    ).then((id) => {
+      this.nodeDB.clear();
+      return id;
+    });
   }
 
   /**
@@ -606,7 +863,10 @@ export abstract class MeshDevice {
       toBinary(Protobuf.Admin.AdminMessageSchema, removeNodeByNum),
       Protobuf.Portnums.PortNum.ADMIN_APP,
       "self",
-    );
+    ).then((id) => {
+      this.nodeDB.remove(nodeNum);
+      return id;
+    });
   }
 
   /** Shuts down the current node after the specified amount of time has elapsed. */
@@ -717,6 +977,22 @@ export abstract class MeshDevice {
     );
   }
 
+  /**
+   * Gets a handle to administer another node on the mesh, responses from the
+   * node are dispatched on the handle instead of this device
+   */
+  public admin(nodeNum: number): RemoteAdmin {
+    if (nodeNum === this.myNodeInfo.myNodeNum) {
+      throw new Error("The connected node is administered through the device");
+    }
+    let remoteAdmin = this.remoteAdmins.get(nodeNum);
+    if (!remoteAdmin) {
+      remoteAdmin = new RemoteAdmin(this, nodeNum);
+      this.remoteAdmins.set(nodeNum, remoteAdmin);
+    }
+    return remoteAdmin;
+  }
+
   /** Triggers the device configure process */
   public configure(): Promise<number> {
     this.log.debug(
@@ -735,6 +1011,13 @@ export abstract class MeshDevice {
     return this.sendRaw(toBinary(Protobuf.Mesh.ToRadioSchema, toRadio));
   }
 
+  /** Triggers the device configure process without waiting for it */
+  protected startConfigure(): void {
+    this.configure().catch(() => {
+      // TODO: FIX, workaround for `wantConfigId` not getting acks.
+    });
+  }
+
   /** Serial connection requires a heartbeat ping to stay connected, otherwise times out after 15 minutes */
   public heartbeat(): Promise<number> {
     this.log.debug(
@@ -752,6 +1035,32 @@ export abstract class MeshDevice {
     return this.sendRaw(toBinary(Protobuf.Mesh.ToRadioSchema, toRadio));
   }
 
+  /**
+   * Forwards a message received from the MQTT broker to the device. These
+   * messages are not acknowledged, so they bypass the packet queue.
+   */
+  public async sendMqttClientProxyMessage(
+    message: Protobuf.Mesh.MqttClientProxyMessage,
+  ): Promise<void> {
+    this.log.trace(
+      Types.Emitter[Types.Emitter.SendMqttClientProxyMessage],
+      `📡 Forwarding MQTT message for topic: ${message.topic}`,
+    );
+
+    const toRadio = toBinary(
+      Protobuf.Mesh.ToRadioSchema,
+      create(Protobuf.Mesh.ToRadioSchema, {
+        payloadVariant: {
+          case: "mqttClientProxyMessage",
+          value: message,
+        },
+      }),
+    );
+
+    await this.writeToRadio(toRadio);
+    this.events.onRawToRadio.dispatch(toRadio);
+  }
+
   /** Sends a trace route packet to the designated node */
   public async traceRoute(destination: number): Promise<number> {
     const routeDiscovery = create(Protobuf.Mesh.RouteDiscoverySchema, {
@@ -783,6 +1092,112 @@ export abstract class MeshDevice {
     }
   }
 
+  /**
+   * Re-establishes the underlying link after it was lost, implemented by
+   * connections that support automatic reconnection. Must throw if the link
+   * could not be restored.
+   */
+  protected reopen(): Promise<void> {
+    return Promise.reject(
+      new Error(`Reconnecting is not supported for ${this.connType}`),
+    );
+  }
+
+  /**
+   * Gets called by connections when the link was lost without `disconnect()`
+   * being called, reconnects according to `reconnectPolicy`
+   */
+  protected handleConnectionLost(): void {
+    if (
+      this.reconnecting ||
+      this.deviceStatus === Types.DeviceStatusEnum.DeviceDisconnected
+    ) {
+      return;
+    }
+    this.reconnecting = true;
+    this.scheduleReconnect(1);
+  }
+
+  /** Stops any pending reconnection attempt */
+  protected cancelReconnect(): void {
+    this.reconnecting = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+  }
+
+  private scheduleReconnect(attempt: number): void {
+    const policy = this.reconnectPolicy;
+    if (!policy?.shouldRetry(attempt)) {
+      if (policy) {
+        this.log.error(
+          Types.Emitter[Types.Emitter.Reconnect],
+          `❌ Giving up after ${attempt - 1} reconnection attempts`,
+        );
+      }
+      this.cancelReconnect();
+      this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceDisconnected);
+      this.complete();
+      return;
+    }
+
+    const delay = policy.getDelay(attempt);
+    this.log.info(
+      Types.Emitter[Types.Emitter.Reconnect],
+      `🔄 Reconnecting in ${delay}ms, attempt ${attempt}/${policy.maxAttempts}`,
+    );
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceReconnecting);
+    this.events.onReconnectAttempt.dispatch({
+      attempt,
+      maxAttempts: policy.maxAttempts,
+      delay,
+    });
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined;
+      this.reopen()
+        .then(() => {
+          if (this.reconnecting) {
+            this.resumeSession();
+          }
+        })
+        .catch((e: Error) => {
+          this.log.warn(
+            Types.Emitter[Types.Emitter.Reconnect],
+            `⚠️ Reconnection attempt ${attempt} failed: ${e.message}`,
+          );
+          if (this.reconnecting) {
+            this.scheduleReconnect(attempt + 1);
+          }
+        });
+    }, delay);
+  }
+
+  /**
+   * Reconfigures the device after the link was restored and writes all
+   * packets that were never acknowledged again
+   */
+  private resumeSession(): void {
+    this.reconnecting = false;
+    this.log.info(
+      Types.Emitter[Types.Emitter.Reconnect],
+      "✅ Connection restored",
+    );
+    this.updateDeviceStatus(Types.DeviceStatusEnum.DeviceConnected);
+
+    /** Stale config requests are superseded by the one sent below */
+    for (const item of this.queue.getState()) {
+      const toRadio = fromBinary(Protobuf.Mesh.ToRadioSchema, item.data);
+      if (toRadio.payloadVariant.case === "wantConfigId") {
+        this.queue.cancel(item.id, "Superseded by a new config request");
+      }
+    }
+    this.queue.requeueUnacked();
+
+    this.startConfigure();
+  }
+
   /**
    * Generates random packet identifier
    *
@@ -802,10 +1217,10 @@ export abstract class MeshDevice {
    * fromRadio data
    */
   protected handleFromRadio(fromRadio: Uint8Array): void {
+    this.events.onRawFromRadio.dispatch(fromRadio);
     const decodedMessage = fromBinary(Protobuf.Mesh.FromRadioSchema, fromRadio);
     this.events.onFromRadio.dispatch(decodedMessage);
 
-    /** @todo Add map here when `all=true` gets fixed. */
     switch (decodedMessage.payloadVariant.case) {
       case "packet": {
         this.handleMeshPacket(decodedMessage.payloadVariant.value);
@@ -905,9 +1320,7 @@ export abstract class MeshDevice {
       }
 
       case "rebooted": {
-        this.configure().catch(() => {
-          // TODO: FIX, workaround for `wantConfigId` not getting acks.
-        });
+        this.startConfigure();
         break;
       }
 
@@ -986,6 +1399,14 @@ export abstract class MeshDevice {
       }
 
       case "mqttClientProxyMessage": {
+        this.log.trace(
+          Types.Emitter[Types.Emitter.HandleFromRadio],
+          `📡 Received MQTT client proxy message for topic: ${decodedMessage.payloadVariant.value.topic}`,
+        );
+
+        this.events.onMqttClientProxyMessage.dispatch(
+          decodedMessage.payloadVariant.value,
+        );
         break;
       }
 
@@ -1001,12 +1422,13 @@ export abstract class MeshDevice {
   /** Completes all Events */
   public complete(): void {
     this.queue.clear();
+    this.textReassembler.clear();
   }
 
   /**
    * Gets called when a MeshPacket is received from device
    */
-  private handleMeshPacket(meshPacket: Protobuf.Mesh.MeshPacket): void {
+  protected handleMeshPacket(meshPacket: Protobuf.Mesh.MeshPacket): void {
     this.events.onMeshPacket.dispatch(meshPacket);
     if (meshPacket.from !== this.myNodeInfo.myNodeNum) {
       /**
@@ -1023,10 +1445,7 @@ export abstract class MeshDevice {
       }
 
       case "encrypted": {
-        this.log.debug(
-          Types.Emitter[Types.Emitter.HandleMeshPacket],
-          "🔐 Device received encrypted data packet, ignoring.",
-        );
+        this.decryptMeshPacket(meshPacket);
         break;
       }
 
@@ -1035,9 +1454,42 @@ export abstract class MeshDevice {
     }
   }
 
+  /**
+   * Decrypts a packet the device forwarded still encrypted with the keyring
+   * and handles it like any decoded packet. Its `channel` only holds the
+   * channel hash, so the name of the matching key is passed on instead.
+   */
+  private decryptMeshPacket(meshPacket: Protobuf.Mesh.MeshPacket): void {
+    this.keyring
+      .decrypt(meshPacket)
+      .then((match) => {
+        if (!match) {
+          this.log.debug(
+            Types.Emitter[Types.Emitter.HandleMeshPacket],
+            "🔐 Device received encrypted data packet without a matching key, ignoring.",
+          );
+          return;
+        }
+        this.log.debug(
+          Types.Emitter[Types.Emitter.HandleMeshPacket],
+          `🔓 Decrypted packet ${meshPacket.id} with the key of ${match.name}`,
+        );
+        meshPacket.payloadVariant = { case: "decoded", value: match.data };
+        this.handleDecodedPacket(match.data, meshPacket, match.name);
+      })
+      .catch((error) => {
+        this.log.error(
+          Types.Emitter[Types.Emitter.HandleMeshPacket],
+          `⚠️ Failed to decrypt packet ${meshPacket.id}`,
+          error,
+        );
+      });
+  }
+
   private handleDecodedPacket(
     dataPacket: Protobuf.Mesh.Data,
     meshPacket: Protobuf.Mesh.MeshPacket,
+    channelName?: string,
   ) {
     let adminMessage: Protobuf.Admin.AdminMessage | undefined = undefined;
     let routingPacket: Protobuf.Mesh.Routing | undefined = undefined;
@@ -1050,6 +1502,22 @@ export abstract class MeshDevice {
       to: meshPacket.to,
       channel: meshPacket.channel,
     };
+    if (channelName !== undefined) {
+      packetMetadata.channel = Types.ChannelNumber.Primary;
+      packetMetadata.channelName = channelName;
+    }
+    if (dataPacket.requestId) {
+      packetMetadata.requestId = dataPacket.requestId;
+    }
+    if (meshPacket.pkiEncrypted) {
+      packetMetadata.pkiEncrypted = true;
+    }
+    if (dataPacket.replyId) {
+      packetMetadata.replyId = dataPacket.replyId;
+    }
+    if (dataPacket.emoji) {
+      packetMetadata.emoji = dataPacket.emoji;
+    }
 
     this.log.trace(
       Types.Emitter[Types.Emitter.HandleMeshPacket],
@@ -1058,7 +1526,7 @@ export abstract class MeshDevice {
 
     switch (dataPacket.portnum) {
       case Protobuf.Portnums.PortNum.TEXT_MESSAGE_APP: {
-        this.events.onMessagePacket.dispatch({
+        this.textReassembler.push({
           ...packetMetadata,
           data: new TextDecoder().decode(dataPacket.payload),
         });
@@ -1136,6 +1604,24 @@ export abstract class MeshDevice {
           Protobuf.Admin.AdminMessageSchema,
           dataPacket.payload,
         );
+
+        /**
+         * Responses from other nodes belong to their remote admin handle, if
+         * one was created. Owner and metadata also carry the sender so they
+         * are dispatched here as well.
+         */
+        if (meshPacket.from && meshPacket.from !== this.myNodeInfo.myNodeNum) {
+          this.remoteAdmins
+            .get(meshPacket.from)
+            ?.handleAdminMessage(adminMessage, packetMetadata);
+          if (
+            adminMessage.payloadVariant.case !== "getOwnerResponse" &&
+            adminMessage.payloadVariant.case !== "getDeviceMetadataResponse"
+          ) {
+            break;
+          }
+        }
+
         switch (adminMessage.payloadVariant.case) {
           case "getChannelResponse": {
             this.events.onChannelPacket.dispatch(
@@ -1162,6 +1648,18 @@ export abstract class MeshDevice {
             );
             break;
           }
+          case "getCannedMessageModuleMessagesResponse": {
+            this.events.onCannedMessagesPacket.dispatch(
+              adminMessage.payloadVariant.value,
+            );
+            break;
+          }
+          case "getRingtoneResponse": {
+            this.events.onRingtonePacket.dispatch(
+              adminMessage.payloadVariant.value,
+            );
+            break;
+          }
           case "getDeviceMetadataResponse": {
             this.log.debug(
               Types.Emitter[Types.Emitter.GetMetadata],
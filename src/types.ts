@@ -1,9 +1,16 @@
 import type {
   BleConnection,
   HttpConnection,
+  MockConnection,
+  MqttConnection,
+  ReplayConnection,
   SerialConnection,
+  StreamConnection,
+  TcpConnection,
+  WebSocketConnection,
 } from "./adapters/index.ts";
 import type * as Protobuf from "@meshtastic/protobufs";
+import type { MockFirmware } from "./utils/index.ts";
 
 export interface QueueItem {
   id: number;
@@ -11,6 +18,8 @@ export interface QueueItem {
   sent: boolean;
   added: Date;
   promise: Promise<number>;
+  /** Resolved once written instead of once acknowledged */
+  resolveOnWrite?: boolean;
 }
 
 export enum DeviceStatusEnum {
@@ -23,10 +32,55 @@ export enum DeviceStatusEnum {
   DeviceConfigured = 7,
 }
 
+export interface FrameDecoderStats {
+  /** Frames decoded successfully */
+  frames: number;
+  /** Bytes received outside of frames, e.g. debug log output */
+  paddingBytes: number;
+  /** Bytes discarded while resynchronising on corrupt frames */
+  droppedBytes: number;
+  /** Frames discarded as truncated or oversized */
+  malformedFrames: number;
+}
+
+export interface FrameDecoderHandler {
+  /** Returns `false` if the frame fails to decode, dropping it */
+  onFrame(frame: Uint8Array): boolean | undefined;
+  onPadding(bytes: Uint8Array): void;
+  onMalformed?(bytes: Uint8Array, reason: string): void;
+}
+
+export interface ReconnectPolicyOptions {
+  /** Delay before the first attempt in milliseconds, defaults to 1000 */
+  initialDelay?: number;
+  /** Upper bound for the delay in milliseconds, defaults to 30000 */
+  maxDelay?: number;
+  /** Factor the delay grows by per attempt, defaults to 2 */
+  multiplier?: number;
+  /** Fraction of the delay randomly added or subtracted, defaults to 0.2 */
+  jitter?: number;
+  /** Attempts before giving up, defaults to 10 */
+  maxAttempts?: number;
+}
+
+export interface ReconnectAttempt {
+  /** Number of the upcoming attempt, starting at 1 */
+  attempt: number;
+  maxAttempts: number;
+  /** Milliseconds until the attempt is made */
+  delay: number;
+}
+
 export type ConnectionParameters =
   | HttpConnectionParameters
   | BleConnectionParameters
-  | SerialConnectionParameters;
+  | SerialConnectionParameters
+  | TcpConnectionParameters
+  | StreamConnectionParameters
+  | MockConnectionParameters
+  | ReplayConnectionParameters
+  | MqttConnectionParameters
+  | WebSocketConnectionParameters;
 
 export interface HttpConnectionParameters {
   /** Address The IP Address/Domain to connect to, without protocol */
@@ -36,7 +90,11 @@ export interface HttpConnectionParameters {
    * be trusted by the browser
    */
   tls?: boolean;
-  /** Enables receiving messages all at once, versus one per request */
+  /**
+   * Enables receiving messages all at once, versus one per request. Batches
+   * the firmware does not frame are dropped and the rest of that read falls
+   * back to single reads
+   */
   receiveBatchRequests?: boolean;
   /**
    * (ms) Sets a fixed interval in that the device is fetched for new messages,
@@ -59,6 +117,120 @@ export interface SerialConnectionParameters {
   concurrentLogOutput: boolean;
 }
 
+export interface TcpConnectionParameters {
+  /** Hostname or IP address of the device or `meshtasticd` instance */
+  host: string;
+  /** TCP port of the stream API, defaults to 4403 */
+  port?: number;
+  concurrentLogOutput?: boolean;
+}
+
+export interface StreamConnectionParameters {
+  /** Stream of raw bytes received from the device */
+  readable: ReadableStream<Uint8Array>;
+  /** Stream raw bytes are written to the device through */
+  writable: WritableStream<Uint8Array>;
+  concurrentLogOutput?: boolean;
+}
+
+export interface MockConnectionParameters {
+  /** Emulated firmware to connect to */
+  firmware: MockFirmware;
+  /** (ms) Delay applied to every message emitted by the firmware */
+  latency?: number;
+}
+
+export interface ReplayConnectionParameters {
+  /** Capture to replay, either parsed or as recorded JSON lines */
+  capture: CaptureEntry[] | string;
+  /**
+   * Playback speed multiplier, `1` replays at recorded speed, `0` replays as
+   * fast as possible
+   */
+  speed?: number;
+}
+
+/**
+ * Minimal MQTT client interface, allows plugging in any MQTT implementation
+ * (e.g. MQTT.js) without this library depending on it
+ */
+export interface MqttClient {
+  subscribe(topic: string): Promise<void>;
+  unsubscribe(topic: string): Promise<void>;
+  publish(
+    topic: string,
+    payload: Uint8Array | string,
+    retain?: boolean,
+  ): Promise<void>;
+  /** Registers a message handler, returns a function removing it again */
+  onMessage(
+    handler: (topic: string, payload: Uint8Array, retained: boolean) => void,
+  ): () => void;
+  /**
+   * Registers a broker connection state handler, returns a function removing
+   * it again
+   */
+  onStatusChange?(handler: (connected: boolean) => void): () => void;
+  end(): Promise<void>;
+}
+
+export enum MqttProxyStatusEnum {
+  ProxyStopped = 1,
+  ProxyConnecting = 2,
+  ProxyConnected = 3,
+  ProxyDisconnected = 4,
+}
+
+export interface MqttChannel {
+  /** Channel name, as used in the topic and for the channel hash */
+  name: string;
+  /** Channel PSK, 0, 1, 16 or 32 bytes */
+  psk: Uint8Array;
+}
+
+export interface MqttConnectionParameters {
+  /** Connected client of the broker the mesh is bridged to */
+  client: MqttClient;
+  /** Channels to join, the first one is treated as primary */
+  channels: MqttChannel[];
+  /** Root topic, defaults to `msh` */
+  rootTopic?: string;
+  /** LoRa region segment of the topic, defaults to `US` */
+  region?: string;
+  /** Node number to appear as, random if omitted */
+  nodeNum?: number;
+  longName?: string;
+  shortName?: string;
+}
+
+export interface WebSocketConnectionParameters {
+  /** URL of the multiplexing server, e.g. `ws://localhost:8080` */
+  url: string;
+}
+
+/**
+ * Minimal client socket interface used by `MultiplexServer`, allows plugging
+ * in any WebSocket server implementation. Every message carries exactly one
+ * serialized ToRadio (client to server) or FromRadio (server to client)
+ * message.
+ */
+export interface MultiplexClientSocket {
+  send(data: Uint8Array): void;
+  onMessage(handler: (data: Uint8Array) => void): void;
+  onClose(handler: () => void): void;
+  close?(): void;
+}
+
+export type CaptureDirection = "fromRadio" | "toRadio";
+
+export interface CaptureEntry {
+  /** Unix timestamp (ms) the message was recorded at */
+  time: number;
+  direction: CaptureDirection;
+  /** Serialized FromRadio or ToRadio message */
+  data: Uint8Array;
+}
+
 export type LogEventPacket = LogEvent & { date: Date };
 
 export type PacketDestination = "broadcast" | "direct";
@@ -70,15 +242,320 @@ export interface PacketMetadata<T> {
   from: number;
   to: number;
   channel: ChannelNumber;
+  /** Id of the packet this packet is a response to, e.g. an ACK */
+  requestId?: number;
+  /** Id of the message this packet replies or reacts to */
+  replyId?: number;
+  /** Set when the payload is an emoji reaction to `replyId` */
+  emoji?: number;
+  /** Set on messages replayed by a Store & Forward router */
+  fromHistory?: boolean;
+  /** Set when the packet was encrypted with the recipient's public key */
+  pkiEncrypted?: boolean;
+  /**
+   * Name of the keyring channel a packet the device forwarded encrypted was
+   * decrypted with, `channel` is then the primary channel
+   */
+  channelName?: string;
   data: T;
 }
 
+/** Store & Forward router heard on the mesh */
+export interface StoreForwardRouter {
+  num: number;
+  /** Time the router last sent a heartbeat or response */
+  lastHeard: Date;
+  /** Seconds between heartbeats, if known */
+  heartbeatPeriod?: number;
+  /** Whether the router is not the primary router of the mesh */
+  secondary: boolean;
+  /** Set while the router reports being busy */
+  busy: boolean;
+  /** Latest statistics, once requested with `requestStats` */
+  stats?: Protobuf.StoreForward.StoreAndForward_Statistics;
+  /** Latest history response, its `lastRequest` continues the next request */
+  history?: Protobuf.StoreForward.StoreAndForward_History;
+}
+
+export interface StoreForwardHistoryRequest {
+  /** Minutes of history to return, the router's `returnWindow` if unset */
+  window?: number;
+  /** Most messages to return, the router's `returnMax` if unset */
+  count?: number;
+}
+
+export interface RangeTestSenderOptions {
+  /** Seconds between packets */
+  interval: number;
+  channel?: ChannelNumber;
+  destination?: Destination;
+}
+
+/** Position in degrees and metres above sea level */
+export interface RangeTestPosition {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+/** Range test packet received from a sender */
+export interface RangeTestRecord {
+  from: number;
+  seq: number;
+  rxTime: Date;
+  snr?: number;
+  rssi?: number;
+  hopsAway?: number;
+  /** Last position reported by the sender */
+  senderPosition?: RangeTestPosition;
+  /** Position of the connected node when the packet was received */
+  localPosition?: RangeTestPosition;
+  /** Metres between the sender and the connected node */
+  distance?: number;
+}
+
+export interface RangeTestRange {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+/** Reception statistics of one sender */
+export interface RangeTestStats {
+  from: number;
+  received: number;
+  /** Packets the sender sent between the first and last one received */
+  expected: number;
+  /** Share of expected packets that were not received, from 0 to 1 */
+  packetLoss: number;
+  snr?: RangeTestRange;
+  rssi?: RangeTestRange;
+  distance?: RangeTestRange;
+}
+
+/** Part of a text split by `splitText` */
+export interface TextChunk {
+  /** Random id shared by all parts of a text */
+  chunkId: string;
+  /** One based position of the part */
+  part: number;
+  total: number;
+  /** Text of the part without its header */
+  text: string;
+}
+
+/** Channel key tried on packets the device forwards still encrypted */
+export interface KeyringEntry {
+  /** Channel name, part of the channel hash */
+  name: string;
+  /** Channel PSK, 1 byte shorthands are expanded */
+  psk: Uint8Array;
+}
+
+export interface KeyringMatch extends KeyringEntry {
+  /** Decrypted payload */
+  data: Protobuf.Mesh.Data;
+}
+
+/** Public key announced by a node */
+export interface PublicKeyRecord {
+  num: number;
+  publicKey: Uint8Array;
+  /** Time the key was first seen */
+  firstSeen: Date;
+  /** Whether the key was compared with the node's owner out of band */
+  verified: boolean;
+}
+
+/** A known node announced a different public key than before */
+export interface PublicKeyChange {
+  num: number;
+  previousKey: Uint8Array;
+  publicKey: Uint8Array;
+  /** Whether the previous key had been verified */
+  wasVerified: boolean;
+}
+
+export interface NodeRecord {
+  num: number;
+  user?: Protobuf.Mesh.User;
+  /** Latest known position */
+  position?: Protobuf.Mesh.Position;
+  deviceMetrics?: Protobuf.Telemetry.DeviceMetrics;
+  environmentMetrics?: Protobuf.Telemetry.EnvironmentMetrics;
+  /** Time the node was last heard from directly or through the mesh */
+  lastHeard?: Date;
+  snr?: number;
+  rssi?: number;
+  /** Hops the last packet from the node took, if known */
+  hopsAway?: number;
+  /** Whether the node was last heard via MQTT */
+  viaMqtt: boolean;
+}
+
+/**
+ * Key value store used to persist device state, see `MemoryStorage`,
+ * `IndexedDBStorage` and `FileStorage`
+ */
+export interface StorageBackend {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface PersistenceOptions {
+  /** Number of most recent text messages kept, defaults to 500 */
+  maxMessages?: number;
+  /** Milliseconds changes are collected for before saving, defaults to 1000 */
+  saveDelay?: number;
+}
+
+export type ConversationType = "channel" | "direct";
+
+export interface ConversationMessage {
+  id: number;
+  from: number;
+  to: number;
+  channel: ChannelNumber;
+  rxTime: Date;
+  text: string;
+  /** Id of the message this one replies to */
+  replyId?: number;
+  /** Node numbers that reacted to the message, keyed by emoji */
+  reactions: Record<string, number[]>;
+  /** Delivery state of messages sent by the connected device */
+  delivery?: DeliveryState;
+}
+
+export interface Conversation {
+  /** `channel:<index>` or `direct:<node number>` */
+  id: string;
+  type: ConversationType;
+  channel: ChannelNumber;
+  /** Other party of a direct conversation */
+  peer?: number;
+  /** Messages, oldest first */
+  messages: ConversationMessage[];
+  unread: number;
+}
+
+/**
+ * Lifecycle of a sent packet: `queued` until written to the radio, `sent`
+ * once written, `implicitAck` when a rebroadcast was heard, `acked` when the
+ * destination acknowledged it, `failed` on a routing error and `timedOut`
+ * when no acknowledgement arrived in time
+ */
+export type DeliveryState =
+  | "queued"
+  | "sent"
+  | "implicitAck"
+  | "acked"
+  | "failed"
+  | "timedOut";
+
+export interface DeliveryStatus {
+  id: number;
+  /** Destination node number, `broadcastNum` for broadcasts */
+  to: number;
+  state: DeliveryState;
+  /** Time of the last transition */
+  updated: Date;
+  /** Node the last acknowledgement or error was received from */
+  ackFrom?: number;
+  /** Reason of a `failed` state */
+  error?: Protobuf.Mesh.Routing_Error;
+}
+
+export interface ChannelUrlContents {
+  channelSet: Protobuf.AppOnly.ChannelSet;
+  /** Whether the channels are to be added instead of replacing all channels */
+  addOnly: boolean;
+}
+
+export type ChannelSetApplyMode = "replace" | "add";
+
+export interface DeviceConfigSnapshot {
+  config: Protobuf.Config.Config[];
+  moduleConfig: Protobuf.ModuleConfig.ModuleConfig[];
+  channels: Protobuf.Channel.Channel[];
+}
+
+/** A config or module config variant, or a channel, that differs */
+export type DeviceConfigChange =
+  | { type: "config"; variant: string; value: Protobuf.Config.Config }
+  | {
+      type: "moduleConfig";
+      variant: string;
+      value: Protobuf.ModuleConfig.ModuleConfig;
+    }
+  | { type: "channel"; variant: number; value: Protobuf.Channel.Channel };
+
+export interface DeviceConfigApplyResult {
+  change: DeviceConfigChange;
+  success: boolean;
+  /** Routing error reported by the device, or the reason it was not sent */
+  error?: PacketError | Error;
+}
+
+export type DeviceProfileFormat = "json" | "yaml";
+
+export type DeviceProfileSection =
+  | "owner"
+  | "channels"
+  | "config"
+  | "moduleConfig"
+  | "fixedPosition"
+  | "cannedMessages"
+  | "ringtone";
+
+export interface DeviceProfileExportOptions {
+  /**
+   * Blank custom channel keys, the private key, the WiFi password and the
+   * MQTT password
+   */
+  redact?: boolean;
+}
+
+export interface DeviceProfileImportOptions {
+  /** Sections to apply, all sections present in the profile by default */
+  sections?: DeviceProfileSection[];
+}
+
+export interface DeviceProfileImportResult {
+  section: DeviceProfileSection;
+  success: boolean;
+  /** First error encountered while applying the section */
+  error?: PacketError | Error;
+}
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  /** Path of the offending field, e.g. `lora.region` */
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  /** Whether no errors were found, warnings do not prevent applying */
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
 export enum EmitterScope {
   MeshDevice = 1,
   SerialConnection = 2,
   NodeSerialConnection = 3,
   BleConnection = 4,
   HttpConnection = 5,
+  TcpConnection = 6,
+  StreamConnection = 7,
+  MockConnection = 8,
+  ReplayConnection = 9,
+  MqttConnection = 10,
+  WebSocketConnection = 11,
 }
 
 export enum Emitter {
@@ -116,6 +593,12 @@ export enum Emitter {
   EnterDfuMode = 31,
   RemoveNodeByNum = 32,
   SetCannedMessages = 33,
+  SendMqttClientProxyMessage = 34,
+  Reconnect = 35,
+  GetCannedMessages = 36,
+  SetRingtone = 37,
+  GetRingtone = 38,
+  SetFixedPosition = 39,
 }
 
 export interface LogEvent {
@@ -137,9 +620,27 @@ export enum ChannelNumber {
   Admin = 7,
 }
 
-export type ConnectionType = BleConnection | HttpConnection | SerialConnection;
+export type ConnectionType =
+  | BleConnection
+  | HttpConnection
+  | MockConnection
+  | MqttConnection
+  | ReplayConnection
+  | SerialConnection
+  | StreamConnection
+  | TcpConnection
+  | WebSocketConnection;
 
-export type ConnectionTypeName = "ble" | "http" | "serial";
+export type ConnectionTypeName =
+  | "ble"
+  | "http"
+  | "mock"
+  | "mqtt"
+  | "replay"
+  | "serial"
+  | "stream"
+  | "tcp"
+  | "websocket";
 
 export type Destination = number | "self" | "broadcast";
 
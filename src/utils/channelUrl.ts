@@ -0,0 +1,205 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import { base64Decode, base64Encode } from "@bufbuild/protobuf/wire";
+import * as Protobuf from "@meshtastic/protobufs";
+import { maxChannels } from "../constants.ts";
+import type { MeshDevice } from "../meshDevice.ts";
+import type { ChannelSetApplyMode, ChannelUrlContents } from "../types.ts";
+import { validateChannelSettings } from "./validation.ts";
+
+/** Prefix of channel set URLs shared by the Meshtastic apps */
+export const channelUrlPrefix = "https://meshtastic.org/e/";
+
+/** Whether two channel settings describe the same channel */
+const isSameChannel = (
+  a: Protobuf.Channel.ChannelSettings,
+  b: Protobuf.Channel.ChannelSettings,
+): boolean =>
+  a.name === b.name &&
+  a.psk.length === b.psk.length &&
+  a.psk.every((byte: number, index: number) => byte === b.psk[index]);
+
+/** Throws if the channel set cannot be applied to a device */
+const validateChannelSet = (channelSet: Protobuf.AppOnly.ChannelSet): void => {
+  if (channelSet.settings.length === 0) {
+    throw new Error("Channel set does not contain any channels");
+  }
+  if (channelSet.settings.length > maxChannels) {
+    throw new Error(
+      `Channel set contains ${channelSet.settings.length} channels, at most ${maxChannels} are supported`,
+    );
+  }
+  channelSet.settings.forEach(
+    (settings: Protobuf.Channel.ChannelSettings, index: number) => {
+      const [error] = validateChannelSettings(settings).errors;
+      if (error) {
+        throw new Error(`Channel ${index}: ${error.message}`);
+      }
+    },
+  );
+};
+
+/**
+ * Builds a channel set from the enabled channels of a device, primary channel
+ * first, optionally including its LoRa config
+ */
+export const createChannelSet = (
+  channels: Protobuf.Channel.Channel[],
+  loraConfig?: Protobuf.Config.Config_LoRaConfig,
+): Protobuf.AppOnly.ChannelSet => {
+  const enabled = channels
+    .filter(
+      (channel) =>
+        channel.settings &&
+        channel.role !== Protobuf.Channel.Channel_Role.DISABLED,
+    )
+    .sort((a, b) =>
+      a.role === Protobuf.Channel.Channel_Role.PRIMARY
+        ? -1
+        : b.role === Protobuf.Channel.Channel_Role.PRIMARY
+          ? 1
+          : a.index - b.index,
+    );
+
+  return create(Protobuf.AppOnly.ChannelSetSchema, {
+    settings: enabled.map(
+      (channel) => channel.settings as Protobuf.Channel.ChannelSettings,
+    ),
+    loraConfig,
+  });
+};
+
+/**
+ * Lays out a channel set over all channel slots of a device, the first
+ * channel becomes the primary channel and unused slots are disabled
+ */
+export const createChannels = (
+  channelSet: Protobuf.AppOnly.ChannelSet,
+): Protobuf.Channel.Channel[] =>
+  [...Array(maxChannels).keys()].map((index) => {
+    const settings = channelSet.settings[index];
+    return create(Protobuf.Channel.ChannelSchema, {
+      index,
+      settings,
+      role: !settings
+        ? Protobuf.Channel.Channel_Role.DISABLED
+        : index === 0
+          ? Protobuf.Channel.Channel_Role.PRIMARY
+          : Protobuf.Channel.Channel_Role.SECONDARY,
+    });
+  });
+
+/**
+ * Encodes a channel set as a share URL, `addOnly` marks it to be added to
+ * the existing channels instead of replacing them
+ */
+export const encodeChannelSetUrl = (
+  channelSet: Protobuf.AppOnly.ChannelSet,
+  addOnly = false,
+): string => {
+  validateChannelSet(channelSet);
+  const encoded = base64Encode(
+    toBinary(Protobuf.AppOnly.ChannelSetSchema, channelSet),
+    "url",
+  );
+  return `${channelUrlPrefix}${addOnly ? "?add=true" : ""}#${encoded}`;
+};
+
+/**
+ * Decodes a channel set share URL, accepting both standard and URL-safe
+ * base64 with or without padding. Throws if the URL does not contain a valid
+ * channel set.
+ */
+export const decodeChannelSetUrl = (url: string): ChannelUrlContents => {
+  const hashIndex = url.indexOf("#");
+  const encoded = hashIndex === -1 ? "" : url.slice(hashIndex + 1).trim();
+  if (!encoded) {
+    throw new Error("Channel URL does not contain a channel set");
+  }
+
+  const query = url.slice(0, hashIndex).split("?")[1] ?? "";
+  const addOnly = new URLSearchParams(query).get("add") === "true";
+
+  let channelSet: Protobuf.AppOnly.ChannelSet;
+  try {
+    channelSet = fromBinary(
+      Protobuf.AppOnly.ChannelSetSchema,
+      base64Decode(decodeURIComponent(encoded)),
+    );
+  } catch {
+    throw new Error("Channel URL contains a malformed channel set");
+  }
+  validateChannelSet(channelSet);
+
+  return { channelSet, addOnly };
+};
+
+/**
+ * Applies a channel set to a device within a single edit settings
+ * transaction. `replace` overwrites all channels and the LoRa config,
+ * `add` adds channels not yet present to free secondary slots and leaves
+ * everything else untouched.
+ */
+export const applyChannelSet = async (
+  device: MeshDevice,
+  channelSet: Protobuf.AppOnly.ChannelSet,
+  mode: ChannelSetApplyMode,
+  currentChannels = device.deviceConfig.getChannels(),
+): Promise<void> => {
+  validateChannelSet(channelSet);
+
+  const channels: Protobuf.Channel.Channel[] = [];
+  if (mode === "replace") {
+    channels.push(...createChannels(channelSet));
+  } else {
+    const inUse = currentChannels.filter(
+      (channel) => channel.role !== Protobuf.Channel.Channel_Role.DISABLED,
+    );
+    const freeIndexes = [...Array(maxChannels).keys()].filter(
+      (index) =>
+        index !== 0 && !inUse.some((channel) => channel.index === index),
+    );
+    const additions = channelSet.settings.filter(
+      (settings: Protobuf.Channel.ChannelSettings) =>
+        !inUse.some(
+          (channel) =>
+            channel.settings && isSameChannel(channel.settings, settings),
+        ),
+    );
+    if (additions.length > freeIndexes.length) {
+      throw new Error(
+        `Cannot add ${additions.length} channels, only ${freeIndexes.length} slots are free`,
+      );
+    }
+    additions.forEach(
+      (settings: Protobuf.Channel.ChannelSettings, position: number) => {
+        channels.push(
+          create(Protobuf.Channel.ChannelSchema, {
+            index: freeIndexes[position],
+            settings,
+            role: Protobuf.Channel.Channel_Role.SECONDARY,
+          }),
+        );
+      },
+    );
+  }
+
+  if (channels.length === 0) {
+    return;
+  }
+
+  await device.beginEditSettings();
+  try {
+    for (const channel of channels) {
+      await device.setChannel(channel);
+    }
+    if (mode === "replace" && channelSet.loraConfig) {
+      await device.setConfig(
+        create(Protobuf.Config.ConfigSchema, {
+          payloadVariant: { case: "lora", value: channelSet.loraConfig },
+        }),
+      );
+    }
+  } finally {
+    await device.commitEditSettings();
+  }
+};
@@ -0,0 +1,262 @@
+import { SimpleEventDispatcher } from "ste-simple-events";
+import { broadcastNum } from "../constants.ts";
+import type { MeshDevice } from "../meshDevice.ts";
+import type {
+  Conversation,
+  ConversationMessage,
+  DeliveryState,
+  PacketMetadata,
+} from "../types.ts";
+
+/** Id of the conversation holding broadcasts on a channel */
+export const channelConversationId = (channel: number): string =>
+  `channel:${channel}`;
+
+/** Id of the conversation holding direct messages with a node */
+export const directConversationId = (peer: number): string => `direct:${peer}`;
+
+/**
+ * Groups text messages into conversations per channel and per direct peer,
+ * links replies to their parent message, aggregates emoji reactions and
+ * tracks unread counts
+ */
+export class ConversationStore {
+  /**
+   * Fires whenever a conversation gains a message or reaction, or is read
+   *
+   * @event onConversationUpdated
+   */
+  public readonly onConversationUpdated =
+    new SimpleEventDispatcher<Conversation>();
+
+  /** Oldest messages are dropped once a conversation holds this many */
+  public maxMessages: number;
+
+  private device: MeshDevice;
+
+  private conversations: Map<string, Conversation>;
+
+  /** Conversation id of every stored message, keyed by message id */
+  private messageIndex: Map<number, string>;
+
+  /** Node number of the connected device */
+  private myNodeNum: number | undefined;
+
+  constructor(device: MeshDevice, maxMessages = 500) {
+    this.device = device;
+    this.maxMessages = maxMessages;
+    this.conversations = new Map();
+    this.messageIndex = new Map();
+    this.myNodeNum = undefined;
+
+    device.events.onMyNodeInfo.subscribe(({ myNodeNum }) => {
+      this.myNodeNum = myNodeNum;
+    });
+    device.events.onMessagePacket.subscribe((message) =>
+      this.handleMessage(message),
+    );
+    device.deliveryTracker.onDeliveryStatus.subscribe(({ id, state }) =>
+      this.handleDelivery(id, state),
+    );
+  }
+
+  /** Total number of unread messages across all conversations */
+  public get unread(): number {
+    return this.getConversations().reduce(
+      (total, conversation) => total + conversation.unread,
+      0,
+    );
+  }
+
+  /** Gets all conversations, most recently active first */
+  public getConversations(): Conversation[] {
+    return [...this.conversations.values()].sort(
+      (a, b) =>
+        (b.messages.at(-1)?.rxTime.getTime() ?? 0) -
+        (a.messages.at(-1)?.rxTime.getTime() ?? 0),
+    );
+  }
+
+  /** Gets a conversation by id */
+  public getConversation(id: string): Conversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  /** Gets a stored message by id */
+  public getMessage(id: number): ConversationMessage | undefined {
+    const conversationId = this.messageIndex.get(id);
+    return conversationId === undefined
+      ? undefined
+      : this.conversations
+          .get(conversationId)
+          ?.messages.find((message) => message.id === id);
+  }
+
+  /** Gets all stored replies to a message, oldest first */
+  public getReplies(id: number): ConversationMessage[] {
+    const conversationId = this.messageIndex.get(id);
+    return (
+      this.conversations
+        .get(conversationId ?? "")
+        ?.messages.filter((message) => message.replyId === id) ?? []
+    );
+  }
+
+  /** Resets the unread count of a conversation */
+  public markRead(id: string): void {
+    const conversation = this.conversations.get(id);
+    if (!conversation || conversation.unread === 0) {
+      return;
+    }
+    conversation.unread = 0;
+    this.onConversationUpdated.dispatch(conversation);
+  }
+
+  /** Replies to a stored message within its conversation */
+  public async reply(
+    id: number,
+    text: string,
+    wantAck = true,
+  ): Promise<number> {
+    const { destination, message } = this.resolveParent(id);
+    return await this.device.sendText(
+      text,
+      destination,
+      wantAck,
+      message.channel,
+      message.id,
+    );
+  }
+
+  /** Reacts to a stored message with an emoji */
+  public async react(id: number, emoji: string): Promise<number> {
+    const { destination, message } = this.resolveParent(id);
+    return await this.device.sendText(
+      emoji,
+      destination,
+      true,
+      message.channel,
+      message.id,
+      1,
+    );
+  }
+
+  private resolveParent(id: number): {
+    destination: number | "broadcast";
+    message: ConversationMessage;
+  } {
+    const message = this.getMessage(id);
+    const conversation = this.conversations.get(
+      this.messageIndex.get(id) ?? "",
+    );
+    if (!message || !conversation) {
+      throw new Error(`Message ${id} is not known`);
+    }
+    return {
+      destination: conversation.peer ?? "broadcast",
+      message,
+    };
+  }
+
+  private handleMessage(packet: PacketMetadata<string>): void {
+    if (this.messageIndex.has(packet.id)) {
+      return;
+    }
+
+    if (packet.emoji && packet.replyId) {
+      this.addReaction(packet);
+      return;
+    }
+
+    const conversation = this.getOrCreateConversation(packet);
+    const message: ConversationMessage = {
+      id: packet.id,
+      from: packet.from,
+      to: packet.to,
+      channel: packet.channel,
+      rxTime: packet.rxTime,
+      text: packet.data,
+      reactions: {},
+    };
+    if (packet.replyId) {
+      message.replyId = packet.replyId;
+    }
+    if (packet.from === this.myNodeNum) {
+      message.delivery =
+        this.device.deliveryTracker.getStatus(packet.id)?.state ?? "queued";
+    }
+
+    conversation.messages.push(message);
+    this.messageIndex.set(message.id, conversation.id);
+    for (const dropped of conversation.messages.splice(
+      0,
+      conversation.messages.length - this.maxMessages,
+    )) {
+      this.messageIndex.delete(dropped.id);
+    }
+    if (packet.from !== this.myNodeNum) {
+      conversation.unread++;
+    }
+    this.onConversationUpdated.dispatch(conversation);
+  }
+
+  private handleDelivery(id: number, state: DeliveryState): void {
+    const message = this.getMessage(id);
+    const conversation = this.conversations.get(
+      this.messageIndex.get(id) ?? "",
+    );
+    if (!message || !conversation || message.from !== this.myNodeNum) {
+      return;
+    }
+    message.delivery = state;
+    this.onConversationUpdated.dispatch(conversation);
+  }
+
+  /** Reactions to messages that are not stored are dropped */
+  private addReaction(packet: PacketMetadata<string>): void {
+    const parent = this.getMessage(packet.replyId ?? 0);
+    const conversation = this.conversations.get(
+      this.messageIndex.get(packet.replyId ?? 0) ?? "",
+    );
+    if (!parent || !conversation) {
+      return;
+    }
+    const senders = parent.reactions[packet.data] ?? [];
+    if (!senders.includes(packet.from)) {
+      parent.reactions[packet.data] = [...senders, packet.from];
+      this.onConversationUpdated.dispatch(conversation);
+    }
+  }
+
+  private getOrCreateConversation(
+    packet: PacketMetadata<string>,
+  ): Conversation {
+    const isDirect = packet.to !== broadcastNum;
+    const peer = packet.from === this.myNodeNum ? packet.to : packet.from;
+    const id = isDirect
+      ? directConversationId(peer)
+      : channelConversationId(packet.channel);
+
+    let conversation = this.conversations.get(id);
+    if (!conversation) {
+      conversation = isDirect
+        ? {
+            id,
+            type: "direct",
+            channel: packet.channel,
+            peer,
+            messages: [],
+            unread: 0,
+          }
+        : {
+            id,
+            type: "channel",
+            channel: packet.channel,
+            messages: [],
+            unread: 0,
+          };
+      this.conversations.set(id, conversation);
+    }
+    return conversation;
+  }
+}
@@ -0,0 +1,99 @@
+/** Default channel key, used for PSKs given in 1 byte shorthand form */
+export const defaultKey = new Uint8Array([
+  0xd4, 0xf1, 0xbb, 0x3a, 0x20, 0x29, 0x07, 0x59, 0xf0, 0xbc, 0xff, 0xab, 0xcf,
+  0x4e, 0x69, 0x01,
+]);
+
+/**
+ * Expands a channel PSK to the AES key used on air. An empty key or the 1
+ * byte shorthand `0` disables encryption and yields an empty key, other 1
+ * byte shorthands select a variant of the default key.
+ */
+export const expandPsk = (psk: Uint8Array): Uint8Array => {
+  if (psk.length === 0 || (psk.length === 1 && psk[0] === 0)) {
+    return new Uint8Array();
+  }
+  if (psk.length === 1) {
+    const key = defaultKey.slice();
+    key[key.length - 1] =
+      ((key[key.length - 1] ?? 0) + (psk[0] ?? 1) - 1) & 0xff;
+    return key;
+  }
+  if (psk.length === 16 || psk.length === 32) {
+    return psk;
+  }
+  throw new Error(
+    `Invalid PSK length ${psk.length}, expected 0, 1, 16 or 32 bytes`,
+  );
+};
+
+/** XORs all bytes of the supplied buffer together */
+const xorHash = (data: Uint8Array): number =>
+  data.reduce((hash, byte) => hash ^ byte, 0);
+
+/**
+ * Computes the 1 byte channel hash transmitted in place of the channel index
+ * for encrypted packets
+ */
+export const channelHash = (name: string, psk: Uint8Array): number =>
+  xorHash(new TextEncoder().encode(name)) ^ xorHash(expandPsk(psk));
+
+/**
+ * Builds the AES-CTR initial counter block, made up of the packet id as a
+ * little endian 64 bit integer followed by the sender node number as a little
+ * endian 32 bit integer
+ */
+const buildNonce = (packetId: number, fromNode: number): Uint8Array => {
+  const nonce = new Uint8Array(16);
+  const view = new DataView(nonce.buffer);
+  view.setUint32(0, packetId >>> 0, true);
+  view.setUint32(8, fromNode >>> 0, true);
+  return nonce;
+};
+
+const transformPayload = async (
+  data: Uint8Array,
+  key: Uint8Array,
+  packetId: number,
+  fromNode: number,
+): Promise<Uint8Array> => {
+  if (key.length === 0) {
+    return data;
+  }
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-CTR",
+    false,
+    ["encrypt", "decrypt"],
+  );
+  return new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-CTR", counter: buildNonce(packetId, fromNode), length: 128 },
+      cryptoKey,
+      data,
+    ),
+  );
+};
+
+/**
+ * Encrypts a serialized `Data` message with an expanded channel key, returns
+ * the payload unchanged if the key is empty
+ */
+export const encryptPacket = (
+  data: Uint8Array,
+  key: Uint8Array,
+  packetId: number,
+  fromNode: number,
+): Promise<Uint8Array> => transformPayload(data, key, packetId, fromNode);
+
+/**
+ * Decrypts the `encrypted` payload of a `MeshPacket` with an expanded channel
+ * key, returns the payload unchanged if the key is empty
+ */
+export const decryptPacket = (
+  encrypted: Uint8Array,
+  key: Uint8Array,
+  packetId: number,
+  fromNode: number,
+): Promise<Uint8Array> => transformPayload(encrypted, key, packetId, fromNode);
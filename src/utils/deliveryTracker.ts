@@ -0,0 +1,140 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import type { MeshDevice } from "../meshDevice.ts";
+import type {
+  DeliveryState,
+  DeliveryStatus,
+  PacketMetadata,
+  QueueItem,
+} from "../types.ts";
+
+/**
+ * Follows every mesh packet written through the queue from being queued to
+ * its final acknowledgement or failure. ACKs sent by the connected node for
+ * a packet addressed elsewhere only mean a rebroadcast was heard, so they are
+ * reported as `implicitAck` and the status moves on to `acked` once the
+ * destination itself acknowledges the packet.
+ */
+export class DeliveryTracker {
+  /**
+   * Fires on every state transition of a tracked packet
+   *
+   * @event onDeliveryStatus
+   */
+  public readonly onDeliveryStatus =
+    new SimpleEventDispatcher<DeliveryStatus>();
+
+  /** Oldest statuses are forgotten once this many packets are tracked */
+  public maxTracked: number;
+
+  private statuses: Map<number, DeliveryStatus>;
+
+  /** Node number of the connected device */
+  private myNodeNum: number | undefined;
+
+  constructor(device: MeshDevice, maxTracked = 1000) {
+    this.maxTracked = maxTracked;
+    this.statuses = new Map();
+    this.myNodeNum = undefined;
+
+    device.events.onMyNodeInfo.subscribe(({ myNodeNum }) => {
+      this.myNodeNum = myNodeNum;
+    });
+    device.queue.onItemQueued.subscribe((item) => this.handleQueued(item));
+    device.queue.onItemSent.subscribe((id) => this.update(id, "sent"));
+    device.queue.onItemTimeout.subscribe((id) => this.update(id, "timedOut"));
+    device.events.onRoutingPacket.subscribe((packet) =>
+      this.handleRouting(packet),
+    );
+  }
+
+  /** Gets the current status of a packet, if it is tracked */
+  public getStatus(id: number): DeliveryStatus | undefined {
+    return this.statuses.get(id);
+  }
+
+  /** Gets the statuses of all tracked packets, oldest first */
+  public getStatuses(): DeliveryStatus[] {
+    return [...this.statuses.values()];
+  }
+
+  private handleQueued(item: QueueItem): void {
+    const toRadio = fromBinary(Protobuf.Mesh.ToRadioSchema, item.data);
+    if (toRadio.payloadVariant.case !== "packet") {
+      return;
+    }
+
+    this.statuses.set(item.id, {
+      id: item.id,
+      to: toRadio.payloadVariant.value.to,
+      state: "queued",
+      updated: item.added,
+    });
+    for (const id of [...this.statuses.keys()].slice(
+      0,
+      Math.max(this.statuses.size - this.maxTracked, 0),
+    )) {
+      this.statuses.delete(id);
+    }
+    this.dispatch(item.id);
+  }
+
+  private handleRouting(packet: PacketMetadata<Protobuf.Mesh.Routing>): void {
+    const { requestId, from, data } = packet;
+    const status = this.statuses.get(requestId ?? 0);
+    if (!status || data.variant.case !== "errorReason") {
+      return;
+    }
+
+    if (data.variant.value !== Protobuf.Mesh.Routing_Error.NONE) {
+      this.update(status.id, "failed", from, data.variant.value);
+    } else if (from === status.to) {
+      this.update(status.id, "acked", from);
+    } else if (from === this.myNodeNum && status.state !== "acked") {
+      this.update(status.id, "implicitAck", from);
+    }
+  }
+
+  private update(
+    id: number,
+    state: DeliveryState,
+    ackFrom?: number,
+    error?: Protobuf.Mesh.Routing_Error,
+  ): void {
+    const status = this.statuses.get(id);
+    if (!status) {
+      return;
+    }
+
+    /** Repeated ACKs and packets rewritten after a reconnect change nothing */
+    if (
+      state === status.state ||
+      (state === "sent" && status.state !== "queued")
+    ) {
+      return;
+    }
+
+    const updated: DeliveryStatus = {
+      id,
+      to: status.to,
+      state,
+      updated: new Date(),
+    };
+    if (ackFrom !== undefined) {
+      updated.ackFrom = ackFrom;
+    }
+    if (error !== undefined) {
+      updated.error = error;
+    }
+    this.statuses.set(id, updated);
+    this.dispatch(id);
+  }
+
+  private dispatch(id: number): void {
+    const status = this.statuses.get(id);
+    if (status) {
+      this.onDeliveryStatus.dispatch(status);
+    }
+  }
+}
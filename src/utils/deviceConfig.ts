@@ -0,0 +1,251 @@
+import { equals } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import type { MeshDevice } from "../meshDevice.ts";
+import type {
+  DeviceConfigApplyResult,
+  DeviceConfigChange,
+  DeviceConfigSnapshot,
+  PacketError,
+} from "../types.ts";
+import type { RemoteAdmin } from "./remoteAdmin.ts";
+
+/**
+ * Lists every config and module config variant and channel in `desired`
+ * that is missing from or differs from `current`
+ */
+export const diffDeviceConfig = (
+  current: DeviceConfigSnapshot,
+  desired: Partial<DeviceConfigSnapshot>,
+): DeviceConfigChange[] => {
+  const changes: DeviceConfigChange[] = [];
+
+  for (const config of desired.config ?? []) {
+    const variant = config.payloadVariant.case ?? "";
+    const existing = current.config.find(
+      (c) => c.payloadVariant.case === variant,
+    );
+    if (!existing || !equals(Protobuf.Config.ConfigSchema, existing, config)) {
+      changes.push({ type: "config", variant, value: config });
+    }
+  }
+
+  for (const moduleConfig of desired.moduleConfig ?? []) {
+    const variant = moduleConfig.payloadVariant.case ?? "";
+    const existing = current.moduleConfig.find(
+      (c) => c.payloadVariant.case === variant,
+    );
+    if (
+      !existing ||
+      !equals(Protobuf.ModuleConfig.ModuleConfigSchema, existing, moduleConfig)
+    ) {
+      changes.push({ type: "moduleConfig", variant, value: moduleConfig });
+    }
+  }
+
+  for (const channel of desired.channels ?? []) {
+    const existing = current.channels.find((c) => c.index === channel.index);
+    if (
+      !existing ||
+      !equals(Protobuf.Channel.ChannelSchema, existing, channel)
+    ) {
+      changes.push({ type: "channel", variant: channel.index, value: channel });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Typed snapshot of the config, module config and channels reported by a
+ * device or a remotely administered node, kept up to date from its events
+ * and from changes applied through `applyConfig`
+ */
+export class DeviceConfig {
+  private device: MeshDevice | RemoteAdmin;
+
+  private config: Map<string, Protobuf.Config.Config>;
+
+  private moduleConfig: Map<string, Protobuf.ModuleConfig.ModuleConfig>;
+
+  private channels: Map<number, Protobuf.Channel.Channel>;
+
+  private cannedMessages: string | undefined;
+
+  private ringtone: string | undefined;
+
+  /** Node number the snapshot belongs to */
+  private myNodeNum: number | undefined;
+
+  constructor(device: MeshDevice | RemoteAdmin) {
+    this.device = device;
+    this.config = new Map();
+    this.moduleConfig = new Map();
+    this.channels = new Map();
+    this.cannedMessages = undefined;
+    this.ringtone = undefined;
+    this.myNodeNum = undefined;
+
+    const { events } = device;
+    events.onMyNodeInfo.subscribe(({ myNodeNum }) => {
+      if (myNodeNum !== this.myNodeNum) {
+        this.myNodeNum = myNodeNum;
+        this.config.clear();
+        this.moduleConfig.clear();
+        this.channels.clear();
+        this.cannedMessages = undefined;
+        this.ringtone = undefined;
+      }
+    });
+    events.onConfigPacket.subscribe((config) => this.setConfig(config));
+    events.onModuleConfigPacket.subscribe((moduleConfig) =>
+      this.setModuleConfig(moduleConfig),
+    );
+    events.onChannelPacket.subscribe((channel) => this.setChannel(channel));
+    events.onCannedMessagesPacket.subscribe((cannedMessages) => {
+      this.cannedMessages = cannedMessages;
+    });
+    events.onRingtonePacket.subscribe((ringtone) => {
+      this.ringtone = ringtone;
+    });
+  }
+
+  /** Gets a config variant, e.g. `lora` */
+  public getConfig(
+    variant: Protobuf.Config.Config["payloadVariant"]["case"],
+  ): Protobuf.Config.Config | undefined {
+    return this.config.get(variant ?? "");
+  }
+
+  /** Gets a module config variant, e.g. `mqtt` */
+  public getModuleConfig(
+    variant: Protobuf.ModuleConfig.ModuleConfig["payloadVariant"]["case"],
+  ): Protobuf.ModuleConfig.ModuleConfig | undefined {
+    return this.moduleConfig.get(variant ?? "");
+  }
+
+  /** Gets a channel by index */
+  public getChannel(index: number): Protobuf.Channel.Channel | undefined {
+    return this.channels.get(index);
+  }
+
+  /** Gets all known channels, ordered by index */
+  public getChannels(): Protobuf.Channel.Channel[] {
+    return [...this.channels.values()].sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Gets the canned messages, separated by `|`, once fetched with
+   * `getCannedMessages`
+   */
+  public getCannedMessages(): string | undefined {
+    return this.cannedMessages;
+  }
+
+  /** Gets the external notification ringtone, once fetched with `getRingtone` */
+  public getRingtone(): string | undefined {
+    return this.ringtone;
+  }
+
+  /** Gets everything currently known */
+  public snapshot(): DeviceConfigSnapshot {
+    return {
+      config: [...this.config.values()],
+      moduleConfig: [...this.moduleConfig.values()],
+      channels: this.getChannels(),
+    };
+  }
+
+  /** Lists the changes required to reach the desired state */
+  public diff(desired: Partial<DeviceConfigSnapshot>): DeviceConfigChange[] {
+    return diffDeviceConfig(this.snapshot(), desired);
+  }
+
+  /**
+   * Writes only the variants and channels that differ from the desired state
+   * within a single edit settings transaction, so the device reboots at most
+   * once. Each change is awaited until acknowledged, the snapshot is updated
+   * for every change that succeeded. Rejects without applying anything if
+   * the transaction cannot be started.
+   */
+  public async applyConfig(
+    desired: Partial<DeviceConfigSnapshot>,
+  ): Promise<DeviceConfigApplyResult[]> {
+    const changes = this.diff(desired);
+    if (changes.length === 0) {
+      return [];
+    }
+
+    await this.device.beginEditSettings();
+    try {
+      return await this.applyChanges(changes);
+    } finally {
+      await this.device.commitEditSettings();
+    }
+  }
+
+  /**
+   * Writes the supplied changes one by one without starting or committing a
+   * transaction, for use within an edit settings transaction already begun
+   */
+  public async applyChanges(
+    changes: DeviceConfigChange[],
+  ): Promise<DeviceConfigApplyResult[]> {
+    const results: DeviceConfigApplyResult[] = [];
+    for (const change of changes) {
+      await this.write(change)
+        .then(() => {
+          this.store(change);
+          results.push({ change, success: true });
+        })
+        .catch((error: PacketError | Error) => {
+          results.push({ change, success: false, error });
+        });
+    }
+    return results;
+  }
+
+  private write(change: DeviceConfigChange): Promise<number> {
+    switch (change.type) {
+      case "config": {
+        return this.device.setConfig(change.value);
+      }
+      case "moduleConfig": {
+        return this.device.setModuleConfig(change.value);
+      }
+      case "channel": {
+        return this.device.setChannel(change.value);
+      }
+    }
+  }
+
+  private store(change: DeviceConfigChange): void {
+    switch (change.type) {
+      case "config": {
+        this.setConfig(change.value);
+        break;
+      }
+      case "moduleConfig": {
+        this.setModuleConfig(change.value);
+        break;
+      }
+      case "channel": {
+        this.setChannel(change.value);
+        break;
+      }
+    }
+  }
+
+  private setConfig(config: Protobuf.Config.Config): void {
+    this.config.set(config.payloadVariant.case ?? "", config);
+  }
+
+  private setModuleConfig(
+    moduleConfig: Protobuf.ModuleConfig.ModuleConfig,
+  ): void {
+    this.moduleConfig.set(moduleConfig.payloadVariant.case ?? "", moduleConfig);
+  }
+
+  private setChannel(channel: Protobuf.Channel.Channel): void {
+    this.channels.set(channel.index, channel);
+  }
+}
@@ -0,0 +1,569 @@
+import {
+  type DescMessage,
+  type JsonValue,
+  type MessageShape,
+  clone,
+  create,
+  fromJson,
+  toJson,
+} from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { parse, stringify } from "yaml";
+import type { MeshDevice } from "../meshDevice.ts";
+import type {
+  DeviceConfigSnapshot,
+  DeviceProfileExportOptions,
+  DeviceProfileFormat,
+  DeviceProfileImportOptions,
+  DeviceProfileImportResult,
+  DeviceProfileSection,
+  PacketError,
+} from "../types.ts";
+import {
+  createChannelSet,
+  createChannels,
+  decodeChannelSetUrl,
+  encodeChannelSetUrl,
+} from "./channelUrl.ts";
+import type { DeviceConfig } from "./deviceConfig.ts";
+
+/** First line of profiles written by the Python CLI's `--export-config` */
+const yamlHeader = "# start of Meshtastic configure yaml\n";
+
+/** Prefix the Python CLI uses to mark base64 encoded bytes */
+const base64Prefix = "base64:";
+
+/** Layout of the profile documents read and written by the Python CLI */
+interface ProfileDocument {
+  owner?: string;
+  owner_short?: string;
+  channel_url?: string;
+  canned_messages?: string;
+  ringtone?: string;
+  location?: { lat: number; lon: number; alt?: number };
+  config?: JsonValue;
+  module_config?: JsonValue;
+}
+
+/** Keys the Python CLI marks as base64 within the security config */
+interface SecurityDocument {
+  privateKey?: JsonValue;
+  publicKey?: JsonValue;
+  adminKey?: JsonValue;
+}
+
+interface LocationDocument {
+  lat?: JsonValue;
+  lon?: JsonValue;
+  alt?: JsonValue;
+}
+
+interface Variant {
+  payloadVariant: { case: string | undefined; value?: unknown };
+}
+
+/** Collects config variants into a message holding one field per variant */
+const joinVariants = <Desc extends DescMessage>(
+  schema: Desc,
+  variants: Variant[],
+): MessageShape<Desc> => {
+  const message = create(schema) as Record<string, unknown>;
+  for (const { payloadVariant } of variants) {
+    if (payloadVariant.case && payloadVariant.case in schema.field) {
+      message[payloadVariant.case] = payloadVariant.value;
+    }
+  }
+  return message as MessageShape<Desc>;
+};
+
+/** Splits a message holding one field per config variant into its variants */
+const splitVariants = <Desc extends DescMessage>(
+  schema: Desc,
+  message: MessageShape<Desc>,
+): Variant[] =>
+  schema.fields
+    .filter(
+      (field) =>
+        field.fieldKind === "message" &&
+        (message as Record<string, unknown>)[field.localName] !== undefined,
+    )
+    .map((field) => ({
+      payloadVariant: {
+        case: field.localName,
+        value: (message as Record<string, unknown>)[field.localName],
+      },
+    }));
+
+/** Removes the base64 marker the Python CLI adds to bytes fields */
+const stripBase64Prefix = (value: JsonValue): JsonValue => {
+  if (typeof value === "string") {
+    return value.startsWith(base64Prefix)
+      ? value.slice(base64Prefix.length)
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(stripBase64Prefix);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        stripBase64Prefix(entry),
+      ]),
+    );
+  }
+  return value;
+};
+
+const parseSection = <Desc extends DescMessage>(
+  schema: Desc,
+  name: string,
+  value: JsonValue,
+): MessageShape<Desc> => {
+  try {
+    return fromJson(schema, stripBase64Prefix(value));
+  } catch (e) {
+    throw new Error(
+      `Invalid ${name} section in profile: ${(e as Error).message}`,
+    );
+  }
+};
+
+/**
+ * Keeps the key of a device's channel of the same name for imported channels
+ * without a key, as redacted profiles carry none
+ */
+const keepChannelKeys = (
+  channels: Protobuf.Channel.Channel[],
+  current: Protobuf.Channel.Channel[],
+): Protobuf.Channel.Channel[] =>
+  channels.map((channel) => {
+    const psk = current.find(
+      (existing) => existing.settings?.name === channel.settings?.name,
+    )?.settings?.psk;
+    if (channel.settings?.psk.length === 0 && psk?.length) {
+      channel.settings.psk = psk;
+    }
+    return channel;
+  });
+
+/**
+ * Keeps the device's WiFi password and key pair for imported config without
+ * them, as redacted profiles carry none
+ */
+const keepConfigSecrets = (
+  config: Protobuf.LocalOnly.LocalConfig,
+  current: DeviceConfig,
+): Protobuf.LocalOnly.LocalConfig => {
+  const network = current.getConfig("network")?.payloadVariant;
+  if (config.network?.wifiPsk === "" && network?.case === "network") {
+    config.network.wifiPsk = network.value.wifiPsk;
+  }
+  const security = current.getConfig("security")?.payloadVariant;
+  if (
+    config.security?.privateKey.length === 0 &&
+    security?.case === "security"
+  ) {
+    config.security.privateKey = security.value.privateKey;
+    config.security.publicKey = security.value.publicKey;
+  }
+  return config;
+};
+
+/** Keeps the device's MQTT password for imported module config without one */
+const keepModuleConfigSecrets = (
+  moduleConfig: Protobuf.LocalOnly.LocalModuleConfig,
+  current: DeviceConfig,
+): Protobuf.LocalOnly.LocalModuleConfig => {
+  const mqtt = current.getModuleConfig("mqtt")?.payloadVariant;
+  if (moduleConfig.mqtt?.password === "" && mqtt?.case === "mqtt") {
+    moduleConfig.mqtt.password = mqtt.value.password;
+  }
+  return moduleConfig;
+};
+
+/**
+ * Builds a profile from everything known about the connected device. Canned
+ * messages and the ringtone are only included once fetched with
+ * `getCannedMessages` and `getRingtone`. When redacting, custom channel keys
+ * and secrets are blanked, importing the profile then keeps the keys and
+ * secrets of the target device.
+ */
+export const createDeviceProfile = (
+  device: MeshDevice,
+  { redact = false }: DeviceProfileExportOptions = {},
+): Protobuf.ClientOnly.DeviceProfile => {
+  const { deviceConfig, nodeDB } = device;
+  const profile = create(Protobuf.ClientOnly.DeviceProfileSchema);
+  const ownNode = nodeDB.getOwnNode();
+
+  if (ownNode?.user) {
+    profile.longName = ownNode.user.longName;
+    profile.shortName = ownNode.user.shortName;
+  }
+
+  const channels = deviceConfig.getChannels();
+  if (channels.length > 0) {
+    const lora = deviceConfig.getConfig("lora");
+    const channelSet = createChannelSet(
+      channels,
+      lora?.payloadVariant.case === "lora"
+        ? lora.payloadVariant.value
+        : undefined,
+    );
+    if (redact) {
+      /** 1 byte keys select one of the well known keys and are kept */
+      channelSet.settings = channelSet.settings.map(
+        (settings: Protobuf.Channel.ChannelSettings) => {
+          if (settings.psk.length <= 1) {
+            return settings;
+          }
+          const redacted = clone(
+            Protobuf.Channel.ChannelSettingsSchema,
+            settings,
+          );
+          redacted.psk = new Uint8Array();
+          return redacted;
+        },
+      );
+    }
+    profile.channelUrl = encodeChannelSetUrl(channelSet);
+  }
+
+  const { config, moduleConfig } = deviceConfig.snapshot();
+  if (config.length > 0) {
+    profile.config = joinVariants(Protobuf.LocalOnly.LocalConfigSchema, config);
+    if (redact && profile.config.security) {
+      profile.config.security = clone(
+        Protobuf.Config.Config_SecurityConfigSchema,
+        profile.config.security,
+      );
+      profile.config.security.privateKey = new Uint8Array();
+    }
+    if (redact && profile.config.network) {
+      profile.config.network = clone(
+        Protobuf.Config.Config_NetworkConfigSchema,
+        profile.config.network,
+      );
+      profile.config.network.wifiPsk = "";
+    }
+  }
+  if (moduleConfig.length > 0) {
+    profile.moduleConfig = joinVariants(
+      Protobuf.LocalOnly.LocalModuleConfigSchema,
+      moduleConfig,
+    );
+    if (redact && profile.moduleConfig.mqtt) {
+      profile.moduleConfig.mqtt = clone(
+        Protobuf.ModuleConfig.ModuleConfig_MQTTConfigSchema,
+        profile.moduleConfig.mqtt,
+      );
+      profile.moduleConfig.mqtt.password = "";
+    }
+  }
+
+  if (ownNode?.position?.latitudeI || ownNode?.position?.longitudeI) {
+    profile.fixedPosition = ownNode.position;
+  }
+
+  const cannedMessages = deviceConfig.getCannedMessages();
+  if (cannedMessages !== undefined) {
+    profile.cannedMessages = cannedMessages;
+  }
+  const ringtone = deviceConfig.getRingtone();
+  if (ringtone !== undefined) {
+    profile.ringtone = ringtone;
+  }
+
+  return profile;
+};
+
+/**
+ * Serializes a profile in the layout written by the Python CLI's
+ * `--export-config`, as YAML or as the equivalent JSON
+ */
+export const serializeDeviceProfile = (
+  profile: Protobuf.ClientOnly.DeviceProfile,
+  format: DeviceProfileFormat = "yaml",
+): string => {
+  const document: ProfileDocument = {};
+
+  if (profile.longName) {
+    document.owner = profile.longName;
+  }
+  if (profile.shortName) {
+    document.owner_short = profile.shortName;
+  }
+  if (profile.channelUrl) {
+    document.channel_url = profile.channelUrl;
+  }
+  if (profile.cannedMessages) {
+    document.canned_messages = profile.cannedMessages;
+  }
+  if (profile.ringtone) {
+    document.ringtone = profile.ringtone;
+  }
+  if (profile.fixedPosition) {
+    const { latitudeI = 0, longitudeI = 0, altitude } = profile.fixedPosition;
+    document.location = { lat: latitudeI * 1e-7, lon: longitudeI * 1e-7 };
+    if (altitude) {
+      document.location.alt = altitude;
+    }
+  }
+
+  if (profile.config) {
+    const config = toJson(
+      Protobuf.LocalOnly.LocalConfigSchema,
+      profile.config,
+    ) as { security?: SecurityDocument };
+    const { security } = config;
+    if (security) {
+      for (const key of ["privateKey", "publicKey"] as const) {
+        if (typeof security[key] === "string") {
+          security[key] = `${base64Prefix}${security[key]}`;
+        }
+      }
+      if (Array.isArray(security.adminKey)) {
+        security.adminKey = security.adminKey.map(
+          (key) => `${base64Prefix}${String(key)}`,
+        );
+      }
+    }
+    document.config = config as JsonValue;
+  }
+  if (profile.moduleConfig) {
+    /** The Python CLI leaves out modules without any non-default setting */
+    document.module_config = Object.fromEntries(
+      Object.entries(
+        toJson(
+          Protobuf.LocalOnly.LocalModuleConfigSchema,
+          profile.moduleConfig,
+        ) as Record<string, Record<string, JsonValue>>,
+      ).filter(([, section]) => Object.keys(section).length > 0),
+    );
+  }
+
+  return format === "json"
+    ? JSON.stringify(document, null, 2)
+    : `${yamlHeader}${stringify(document)}`;
+};
+
+/**
+ * Parses a profile written by `serializeDeviceProfile` or the Python CLI,
+ * in either JSON or YAML. Both snake_case and camelCase keys are accepted,
+ * as are the field names of the `DeviceProfile` message.
+ */
+export const parseDeviceProfile = (
+  text: string,
+): Protobuf.ClientOnly.DeviceProfile => {
+  let document: unknown;
+  try {
+    document = parse(text);
+  } catch (e) {
+    throw new Error(
+      `Profile is not valid JSON or YAML: ${(e as Error).message}`,
+    );
+  }
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    throw new Error("Profile does not contain a mapping of sections");
+  }
+
+  const entries = document as Record<string, JsonValue | undefined>;
+  const read = (...keys: string[]): JsonValue | undefined =>
+    keys.map((key) => entries[key]).find((value) => value !== undefined);
+
+  const profile = create(Protobuf.ClientOnly.DeviceProfileSchema);
+
+  const longName = read("owner", "longName");
+  if (longName !== undefined) {
+    profile.longName = String(longName);
+  }
+  const shortName = read("owner_short", "ownerShort", "shortName");
+  if (shortName !== undefined) {
+    profile.shortName = String(shortName);
+  }
+  const channelUrl = read("channel_url", "channelUrl");
+  if (channelUrl !== undefined) {
+    profile.channelUrl = String(channelUrl);
+  }
+  const cannedMessages = read("canned_messages", "cannedMessages");
+  if (cannedMessages !== undefined) {
+    profile.cannedMessages = String(cannedMessages);
+  }
+  const ringtone = read("ringtone");
+  if (ringtone !== undefined) {
+    profile.ringtone = String(ringtone);
+  }
+
+  const location = read("location");
+  const fixedPosition = read("fixed_position", "fixedPosition");
+  if (location && typeof location === "object" && !Array.isArray(location)) {
+    const { lat = 0, lon = 0, alt = 0 } = location as LocationDocument;
+    profile.fixedPosition = create(Protobuf.Mesh.PositionSchema, {
+      latitudeI: Math.round(Number(lat) * 1e7),
+      longitudeI: Math.round(Number(lon) * 1e7),
+      altitude: Math.round(Number(alt)),
+    });
+  } else if (fixedPosition !== undefined) {
+    profile.fixedPosition = parseSection(
+      Protobuf.Mesh.PositionSchema,
+      "fixed position",
+      fixedPosition,
+    );
+  }
+
+  const config = read("config");
+  if (config !== undefined) {
+    profile.config = parseSection(
+      Protobuf.LocalOnly.LocalConfigSchema,
+      "config",
+      config,
+    );
+  }
+  const moduleConfig = read("module_config", "moduleConfig");
+  if (moduleConfig !== undefined) {
+    profile.moduleConfig = parseSection(
+      Protobuf.LocalOnly.LocalModuleConfigSchema,
+      "module config",
+      moduleConfig,
+    );
+  }
+
+  return profile;
+};
+
+/**
+ * Applies the selected sections of a profile within a single edit settings
+ * transaction. Channels, config and module config variants are only written
+ * where they differ from the device's current state, each variant replaces
+ * the device's variant as a whole. The LoRa config carried by the channel URL
+ * is applied unless the profile's config contains one.
+ */
+export const applyDeviceProfile = async (
+  device: MeshDevice,
+  profile: Protobuf.ClientOnly.DeviceProfile,
+  { sections }: DeviceProfileImportOptions = {},
+): Promise<DeviceProfileImportResult[]> => {
+  const { deviceConfig } = device;
+  const selected = (section: DeviceProfileSection) =>
+    !sections || sections.includes(section);
+
+  /** Decoded up front, so a malformed URL fails before anything is written */
+  const channelSet =
+    selected("channels") && profile.channelUrl
+      ? decodeChannelSetUrl(profile.channelUrl).channelSet
+      : undefined;
+
+  const results: DeviceProfileImportResult[] = [];
+  const record = (section: DeviceProfileSection, write: Promise<unknown>) =>
+    write
+      .then(() => {
+        results.push({ section, success: true });
+      })
+      .catch((error: PacketError | Error) => {
+        results.push({ section, success: false, error });
+      });
+
+  await device.beginEditSettings();
+
+  try {
+    if (selected("owner") && (profile.longName || profile.shortName)) {
+      const owner = clone(
+        Protobuf.Mesh.UserSchema,
+        device.nodeDB.getOwnNode()?.user ?? create(Protobuf.Mesh.UserSchema),
+      );
+      owner.longName = profile.longName || owner.longName;
+      owner.shortName = profile.shortName || owner.shortName;
+      await record("owner", device.setOwner(owner));
+    }
+
+    const desired: [DeviceProfileSection, Partial<DeviceConfigSnapshot>][] = [];
+    if (channelSet) {
+      const { loraConfig } = channelSet;
+      const configLora = selected("config") && profile.config?.lora;
+      desired.push([
+        "channels",
+        {
+          channels: keepChannelKeys(
+            createChannels(channelSet),
+            deviceConfig.getChannels(),
+          ),
+          config:
+            loraConfig && !configLora
+              ? [
+                  create(Protobuf.Config.ConfigSchema, {
+                    payloadVariant: { case: "lora", value: loraConfig },
+                  }),
+                ]
+              : [],
+        },
+      ]);
+    }
+    if (selected("config") && profile.config) {
+      desired.push([
+        "config",
+        {
+          config: splitVariants(
+            Protobuf.LocalOnly.LocalConfigSchema,
+            keepConfigSecrets(
+              clone(Protobuf.LocalOnly.LocalConfigSchema, profile.config),
+              deviceConfig,
+            ),
+          ).map((variant) => create(Protobuf.Config.ConfigSchema, variant)),
+        },
+      ]);
+    }
+    if (selected("moduleConfig") && profile.moduleConfig) {
+      desired.push([
+        "moduleConfig",
+        {
+          moduleConfig: splitVariants(
+            Protobuf.LocalOnly.LocalModuleConfigSchema,
+            keepModuleConfigSecrets(
+              clone(
+                Protobuf.LocalOnly.LocalModuleConfigSchema,
+                profile.moduleConfig,
+              ),
+              deviceConfig,
+            ),
+          ).map((variant) =>
+            create(Protobuf.ModuleConfig.ModuleConfigSchema, variant),
+          ),
+        },
+      ]);
+    }
+    for (const [section, state] of desired) {
+      const failed = (
+        await deviceConfig.applyChanges(deviceConfig.diff(state))
+      ).find((result) => !result.success);
+      results.push(
+        failed
+          ? { section, success: false, error: failed.error }
+          : { section, success: true },
+      );
+    }
+
+    if (selected("fixedPosition") && profile.fixedPosition) {
+      await record(
+        "fixedPosition",
+        device.setFixedPosition(profile.fixedPosition),
+      );
+    }
+    if (selected("cannedMessages") && profile.cannedMessages !== undefined) {
+      await record(
+        "cannedMessages",
+        device.setCannedMessages(
+          create(Protobuf.CannedMessages.CannedMessageModuleConfigSchema, {
+            messages: profile.cannedMessages,
+          }),
+        ),
+      );
+    }
+    if (selected("ringtone") && profile.ringtone !== undefined) {
+      await record("ringtone", device.setRingtone(profile.ringtone));
+    }
+  } finally {
+    await device.commitEditSettings();
+  }
+  return results;
+};
@@ -20,6 +20,22 @@ export class EventSystem {
   public readonly onFromRadio =
     new SimpleEventDispatcher<Protobuf.Mesh.FromRadio>();
 
+  /**
+   * Fires with the raw bytes of every FromRadio message received from the
+   * device, before it is decoded
+   *
+   * @event onRawFromRadio
+   */
+  public readonly onRawFromRadio = new SimpleEventDispatcher<Uint8Array>();
+
+  /**
+   * Fires with the raw bytes of every ToRadio message once it has been
+   * written to the device
+   *
+   * @event onRawToRadio
+   */
+  public readonly onRawToRadio = new SimpleEventDispatcher<Uint8Array>();
+
   /**
    * Fires when a new FromRadio message containing a Data packet has been
    * received from the device
@@ -139,6 +155,20 @@ export class EventSystem {
     PacketMetadata<Protobuf.Mesh.DeviceMetadata>
   >();
 
+  /**
+   * Fires when the device responds with its canned messages, separated by `|`
+   *
+   * @event onCannedMessagesPacket
+   */
+  public readonly onCannedMessagesPacket = new SimpleEventDispatcher<string>();
+
+  /**
+   * Fires when the device responds with its external notification ringtone
+   *
+   * @event onRingtonePacket
+   */
+  public readonly onRingtonePacket = new SimpleEventDispatcher<string>();
+
   /**
    * Fires when a new MeshPacket message containing a Waypoint packet has been
    * received from device
@@ -327,6 +357,14 @@ export class EventSystem {
   public readonly onDeviceStatus =
     new SimpleEventDispatcher<Types.DeviceStatusEnum>();
 
+  /**
+   * Fires before every attempt to re-establish a lost connection
+   *
+   * @event onReconnectAttempt
+   */
+  public readonly onReconnectAttempt =
+    new SimpleEventDispatcher<Types.ReconnectAttempt>();
+
   /**
    * Fires when a new FromRadio message containing a LogRecord packet has been
    * received from device
@@ -365,4 +403,21 @@ export class EventSystem {
    */
   public readonly onQueueStatus =
     new SimpleEventDispatcher<Protobuf.Mesh.QueueStatus>();
+
+  /**
+   * Fires when the device wants a message published through the client's
+   * MQTT connection
+   *
+   * @event onMqttClientProxyMessage
+   */
+  public readonly onMqttClientProxyMessage =
+    new SimpleEventDispatcher<Protobuf.Mesh.MqttClientProxyMessage>();
+
+  /**
+   * Fires when the connection state of the MQTT client proxy changes
+   *
+   * @event onMqttProxyStatus
+   */
+  public readonly onMqttProxyStatus =
+    new SimpleEventDispatcher<Types.MqttProxyStatusEnum>();
 }
@@ -0,0 +1,201 @@
+import type { FrameDecoderHandler, FrameDecoderStats } from "../types.ts";
+import {
+  headerLength,
+  maxPayloadLength,
+  start1,
+  start2,
+} from "./streamCodec.ts";
+
+/**
+ * Incrementally decodes `0x94 0xc3 MSB LSB payload` frames from a byte stream,
+ * as sent by devices over serial and TCP. Incoming bytes are kept in a
+ * growable ring buffer, so partial frames are never copied more than once.
+ * Bytes outside of frames are reported as padding (usually debug log output
+ * printed before the API is in use, but debug builds also print it between
+ * frames). Frames rejected by the handler, or announcing a length that runs
+ * into the next frame, are dropped and decoding resynchronises on the next
+ * header.
+ */
+export class FrameDecoder {
+  /** Frames announcing a longer payload are treated as corrupt */
+  public readonly maxFrameLength: number;
+
+  public readonly stats: FrameDecoderStats;
+
+  private buffer: Uint8Array;
+
+  /** Index of the first buffered byte */
+  private head: number;
+
+  /** Number of buffered bytes */
+  private length: number;
+
+  constructor(maxFrameLength = maxPayloadLength, initialCapacity = 1024) {
+    this.maxFrameLength = maxFrameLength;
+    this.stats = {
+      frames: 0,
+      paddingBytes: 0,
+      droppedBytes: 0,
+      malformedFrames: 0,
+    };
+    this.buffer = new Uint8Array(
+      2 ** Math.ceil(Math.log2(Math.max(initialCapacity, 16))),
+    );
+    this.head = 0;
+    this.length = 0;
+  }
+
+  /** Number of bytes waiting for the rest of their frame */
+  public get buffered(): number {
+    return this.length;
+  }
+
+  /** Discards all buffered bytes, counters are kept */
+  public reset(): void {
+    this.head = 0;
+    this.length = 0;
+  }
+
+  /** Appends a chunk and reports every complete frame to the handler */
+  public decode(chunk: Uint8Array, handler: FrameDecoderHandler): void {
+    this.write(chunk);
+
+    while (this.length > 0) {
+      /** Everything before a header is padding */
+      const paddingLength = this.untilHeader(0);
+      if (paddingLength > 0) {
+        this.stats.paddingBytes += paddingLength;
+        handler.onPadding(this.read(0, paddingLength));
+        this.consume(paddingLength);
+        continue;
+      }
+      if (this.length < headerLength) {
+        return;
+      }
+
+      const payloadLength = (this.at(2) << 8) | this.at(3);
+      if (payloadLength > this.maxFrameLength) {
+        this.drop(
+          2,
+          `announced length ${payloadLength} exceeds ${this.maxFrameLength}`,
+          handler,
+        );
+        continue;
+      }
+
+      const frameLength = headerLength + payloadLength;
+      if (this.length < frameLength) {
+        return;
+      }
+
+      /**
+       * A frame cut short runs into the next one, so its payload contains a
+       * header and the bytes after its announced length are not a header.
+       * Headers inside the payload alone are ignored as encrypted and binary
+       * payloads contain them, and bytes other than a header after the frame
+       * alone are padding.
+       */
+      if (
+        !this.isHeaderAt(frameLength) &&
+        this.indexOfHeader(headerLength, frameLength) !== -1
+      ) {
+        this.resync("runs past the next header", handler);
+        continue;
+      }
+      if (handler.onFrame(this.read(headerLength, payloadLength)) === false) {
+        this.resync("failed to decode", handler);
+        continue;
+      }
+      this.stats.frames++;
+      this.consume(frameLength);
+    }
+  }
+
+  /** Drops a corrupt frame up to the next header */
+  private resync(reason: string, handler: FrameDecoderHandler): void {
+    this.drop(this.untilHeader(2), reason, handler);
+  }
+
+  /** Drops the first bytes of a corrupt frame */
+  private drop(
+    length: number,
+    reason: string,
+    handler: FrameDecoderHandler,
+  ): void {
+    this.stats.malformedFrames++;
+    this.stats.droppedBytes += length;
+    handler.onMalformed?.(this.read(0, length), reason);
+    this.consume(length);
+  }
+
+  /** Byte at the supplied offset from the start of the buffered data */
+  private at(offset: number): number {
+    return this.buffer[
+      (this.head + offset) & (this.buffer.length - 1)
+    ] as number;
+  }
+
+  /** Whether the bytes at the offset start a header, as far as buffered */
+  private isHeaderAt(offset: number): boolean {
+    return (
+      (offset >= this.length || this.at(offset) === start1) &&
+      (offset + 1 >= this.length || this.at(offset + 1) === start2)
+    );
+  }
+
+  /**
+   * Offset of the next header from the supplied offset on, or of the end of
+   * the buffered data if there is none, keeping a trailing `0x94`
+   */
+  private untilHeader(from: number): number {
+    const headerIndex = this.indexOfHeader(from);
+    if (headerIndex !== -1) {
+      return headerIndex;
+    }
+    return this.at(this.length - 1) === start1 ? this.length - 1 : this.length;
+  }
+
+  /** Offset of the first complete `0x94 0xc3` header between the offsets */
+  private indexOfHeader(from: number, to = this.length): number {
+    for (let offset = from; offset < to - 1; offset++) {
+      if (this.at(offset) === start1 && this.at(offset + 1) === start2) {
+        return offset;
+      }
+    }
+    return -1;
+  }
+
+  /** Copies buffered bytes into a new array */
+  private read(offset: number, length: number): Uint8Array {
+    const out = new Uint8Array(length);
+    const start = (this.head + offset) & (this.buffer.length - 1);
+    const firstLength = Math.min(length, this.buffer.length - start);
+    out.set(this.buffer.subarray(start, start + firstLength));
+    out.set(this.buffer.subarray(0, length - firstLength), firstLength);
+    return out;
+  }
+
+  private consume(length: number): void {
+    this.head = (this.head + length) & (this.buffer.length - 1);
+    this.length -= length;
+  }
+
+  private write(chunk: Uint8Array): void {
+    if (this.length + chunk.length > this.buffer.length) {
+      let capacity = this.buffer.length;
+      while (capacity < this.length + chunk.length) {
+        capacity *= 2;
+      }
+      const buffer = new Uint8Array(capacity);
+      buffer.set(this.read(0, this.length));
+      this.buffer = buffer;
+      this.head = 0;
+    }
+
+    const tail = (this.head + this.length) & (this.buffer.length - 1);
+    const firstLength = Math.min(chunk.length, this.buffer.length - tail);
+    this.buffer.set(chunk.subarray(0, firstLength), tail);
+    this.buffer.set(chunk.subarray(firstLength), 0);
+    this.length += chunk.length;
+  }
+}
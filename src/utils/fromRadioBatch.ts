@@ -0,0 +1,77 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import { sizeDelimitedPeek } from "@bufbuild/protobuf/wire";
+import * as Protobuf from "@meshtastic/protobufs";
+import { decodeHeader, headerLength, isHeader } from "./streamCodec.ts";
+
+/**
+ * Splits a buffer of FromRadio messages framed with the 4 byte stream header
+ * (`0x94 0xc3 MSB LSB`), returns `undefined` if the buffer is not framed this
+ * way
+ */
+const splitStreamFramed = (data: Uint8Array): Uint8Array[] | undefined => {
+  const messages: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const length = decodeHeader(data, offset);
+    if (length === undefined) {
+      return undefined;
+    }
+    const end = offset + headerLength + length;
+    if (end > data.length) {
+      return undefined;
+    }
+    messages.push(data.subarray(offset + headerLength, end));
+    offset = end;
+  }
+
+  return messages;
+};
+
+/**
+ * Splits a buffer of varint size-delimited FromRadio messages, returns
+ * `undefined` if any message is truncated or does not decode
+ */
+const splitSizeDelimited = (data: Uint8Array): Uint8Array[] | undefined => {
+  const messages: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const peek = sizeDelimitedPeek(data.subarray(offset));
+    if (peek.size === null || peek.size === 0) {
+      return undefined;
+    }
+    const end = offset + peek.offset + peek.size;
+    if (end > data.length) {
+      return undefined;
+    }
+    const message = data.subarray(offset + peek.offset, end);
+    try {
+      const decoded = fromBinary(Protobuf.Mesh.FromRadioSchema, message);
+      if (decoded.payloadVariant.case === undefined) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+    messages.push(message);
+    offset = end;
+  }
+
+  return messages;
+};
+
+/**
+ * Splits the body of a batched `/api/v1/fromradio?all=true` response into
+ * individual FromRadio messages. Both stream framed and size-delimited
+ * bodies are supported, `undefined` is returned for bodies that are not
+ * framed at all, which older firmware produces.
+ */
+export const splitFromRadioBatch = (
+  data: Uint8Array,
+): Uint8Array[] | undefined => {
+  if (isHeader(data)) {
+    return splitStreamFramed(data);
+  }
+  return splitSizeDelimited(data);
+};
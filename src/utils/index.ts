@@ -1,5 +1,29 @@
+export * from "./channelUrl.ts";
+export * from "./conversationStore.ts";
+export * from "./crypto.ts";
+export * from "./deliveryTracker.ts";
+export * from "./deviceConfig.ts";
+export * from "./deviceProfile.ts";
 export * from "./eventSystem.ts";
+export * from "./frameDecoder.ts";
+export * from "./fromRadioBatch.ts";
 export * from "./general.ts";
+export * from "./keyDirectory.ts";
+export * from "./keyring.ts";
+export * from "./mockFirmware.ts";
+export * from "./mqttProxy.ts";
+export * from "./multiplexServer.ts";
+export * from "./nodeDB.ts";
+export * from "./persistence.ts";
 export * from "./queue.ts";
+export * from "./rangeTest.ts";
+export * from "./reconnectPolicy.ts";
+export * from "./remoteAdmin.ts";
+export * from "./sessionRecorder.ts";
+export * from "./storage.ts";
+export * from "./storeForward.ts";
+export * as StreamCodec from "./streamCodec.ts";
+export * from "./textChunker.ts";
 export * from "./transformHandler.ts";
+export * from "./validation.ts";
 export * from "./xmodem.ts";
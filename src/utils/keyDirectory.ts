@@ -0,0 +1,121 @@
+import type * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import type { PublicKeyChange, PublicKeyRecord } from "../types.ts";
+import type { EventSystem } from "./eventSystem.ts";
+
+const isSameKey = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+/**
+ * Public keys announced by nodes in their node info and user packets, used
+ * to send PKI encrypted direct messages. A known node announcing a different
+ * key may be impersonated, the new key replaces the old one but loses its
+ * verified state and `onKeyChanged` fires so the user can be warned.
+ */
+export class KeyDirectory {
+  /**
+   * Fires when a known node announces a different public key
+   *
+   * @event onKeyChanged
+   */
+  public readonly onKeyChanged = new SimpleEventDispatcher<PublicKeyChange>();
+
+  private keys: Map<number, PublicKeyRecord>;
+
+  constructor(events: EventSystem) {
+    this.keys = new Map();
+
+    events.onNodeInfoPacket.subscribe(
+      ({ num, user, isKeyManuallyVerified }) => {
+        if (user) {
+          this.observe(num, user, isKeyManuallyVerified);
+        }
+      },
+    );
+    events.onUserPacket.subscribe(({ from, data }) =>
+      this.observe(from, data, false),
+    );
+  }
+
+  /** Gets the public key record of a node */
+  public get(num: number): PublicKeyRecord | undefined {
+    return this.keys.get(num);
+  }
+
+  /** Gets the public key of a node */
+  public getKey(num: number): Uint8Array | undefined {
+    return this.keys.get(num)?.publicKey;
+  }
+
+  /** Gets all known public key records */
+  public getAll(): PublicKeyRecord[] {
+    return [...this.keys.values()];
+  }
+
+  /**
+   * Marks the key of a node as verified, `publicKey` is the key confirmed out
+   * of band and must match the known key if given
+   */
+  public verify(num: number, publicKey?: Uint8Array): void {
+    const record = this.keys.get(num);
+    if (!record) {
+      throw new Error(`No public key known for node ${num}`);
+    }
+    if (publicKey && !isSameKey(publicKey, record.publicKey)) {
+      throw new Error(`Public key of node ${num} does not match`);
+    }
+    record.verified = true;
+  }
+
+  /** Clears the verified state of the key of a node */
+  public unverify(num: number): void {
+    const record = this.keys.get(num);
+    if (record) {
+      record.verified = false;
+    }
+  }
+
+  public clear(): void {
+    this.keys.clear();
+  }
+
+  private observe(
+    num: number,
+    user: Protobuf.Mesh.User,
+    verified: boolean,
+  ): void {
+    const { publicKey } = user;
+    if (publicKey.length === 0) {
+      return;
+    }
+
+    const record = this.keys.get(num);
+    if (!record) {
+      this.keys.set(num, {
+        num,
+        publicKey,
+        firstSeen: new Date(),
+        verified,
+      });
+      return;
+    }
+    if (isSameKey(record.publicKey, publicKey)) {
+      record.verified ||= verified;
+      return;
+    }
+
+    const change: PublicKeyChange = {
+      num,
+      previousKey: record.publicKey,
+      publicKey,
+      wasVerified: record.verified,
+    };
+    this.keys.set(num, {
+      num,
+      publicKey,
+      firstSeen: new Date(),
+      verified,
+    });
+    this.onKeyChanged.dispatch(change);
+  }
+}
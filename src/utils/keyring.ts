@@ -0,0 +1,115 @@
+import { fromBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import type { KeyringEntry, KeyringMatch } from "../types.ts";
+import { channelHash, decryptPacket, expandPsk } from "./crypto.ts";
+
+/** 1 byte shorthand PSKs selecting the default key and its variants */
+const shorthandKeys = Array.from(
+  { length: 10 },
+  (_, index) => new Uint8Array([index + 1]),
+);
+
+const ModemPreset = Protobuf.Config.Config_LoRaConfig_ModemPreset;
+
+/**
+ * Names of channels without a name, the firmware's display names of the modem
+ * presets
+ */
+const presetChannelNames: Record<
+  Protobuf.Config.Config_LoRaConfig_ModemPreset,
+  string
+> = {
+  [ModemPreset.LONG_FAST]: "LongFast",
+  [ModemPreset.LONG_SLOW]: "LongSlow",
+  [ModemPreset.VERY_LONG_SLOW]: "VLongSlow",
+  [ModemPreset.MEDIUM_SLOW]: "MediumSlow",
+  [ModemPreset.MEDIUM_FAST]: "MediumFast",
+  [ModemPreset.SHORT_SLOW]: "ShortSlow",
+  [ModemPreset.SHORT_FAST]: "ShortFast",
+  [ModemPreset.LONG_MODERATE]: "LongMod",
+  [ModemPreset.SHORT_TURBO]: "ShortTurbo",
+  [ModemPreset.LONG_TURBO]: "LongTurbo",
+};
+
+/**
+ * Channel keys tried against packets the device forwards still encrypted,
+ * e.g. for channels it is not configured with. Besides the keys added, the
+ * default key and its 1 byte shorthand variants are tried with the channel
+ * names of all modem presets. Only keys whose channel hash matches the
+ * packet are tried.
+ */
+export class ChannelKeyring {
+  private entries: KeyringEntry[];
+
+  constructor(entries: KeyringEntry[] = []) {
+    this.entries = [];
+    for (const entry of entries) {
+      this.add(entry);
+    }
+  }
+
+  /** Adds a channel key, replacing a key of the same channel name */
+  public add({ name, psk }: KeyringEntry): void {
+    expandPsk(psk);
+    this.remove(name);
+    this.entries.push({ name, psk });
+  }
+
+  public remove(name: string): void {
+    this.entries = this.entries.filter((entry) => entry.name !== name);
+  }
+
+  /** Gets the channel keys added, without the default keys */
+  public getEntries(): KeyringEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Decrypts the `encrypted` payload of a packet with the first key that
+   * yields a valid `Data` message, resolves with `undefined` if none does
+   */
+  public async decrypt(
+    meshPacket: Protobuf.Mesh.MeshPacket,
+  ): Promise<KeyringMatch | undefined> {
+    if (meshPacket.payloadVariant.case !== "encrypted") {
+      return undefined;
+    }
+    const encrypted = meshPacket.payloadVariant.value;
+
+    for (const entry of this.getCandidates()) {
+      if (channelHash(entry.name, entry.psk) !== meshPacket.channel) {
+        continue;
+      }
+      const key = expandPsk(entry.psk);
+      if (key.length === 0) {
+        continue;
+      }
+
+      const decrypted = await decryptPacket(
+        encrypted,
+        key,
+        meshPacket.id,
+        meshPacket.from,
+      );
+      try {
+        const data = fromBinary(Protobuf.Mesh.DataSchema, decrypted);
+        /** Decrypting with a wrong key can still yield a parseable message */
+        if (data.portnum && Protobuf.Portnums.PortNum[data.portnum]) {
+          return { ...entry, data };
+        }
+      } catch {
+        // Wrong key, try the next one
+      }
+    }
+    return undefined;
+  }
+
+  private getCandidates(): KeyringEntry[] {
+    return [
+      ...this.entries,
+      ...Object.values(presetChannelNames).flatMap((name) =>
+        shorthandKeys.map((psk) => ({ name, psk })),
+      ),
+    ];
+  }
+}
@@ -0,0 +1,435 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import { broadcastNum } from "../constants.ts";
+
+/**
+ * How the fake firmware answers packets that request an ack. `"ack"` replies
+ * with a successful routing packet, `"none"` stays silent (the packet will
+ * time out in the `Queue`) and a `Routing_Error` replies with that error.
+ */
+export type MockAckMode = "ack" | "none" | Protobuf.Mesh.Routing_Error;
+
+export interface MockFirmwareOptions {
+  /** Node number of the emulated device, defaults to `0x0badc0de` */
+  myNodeNum?: number;
+  /** Owner of the emulated device */
+  owner?: Partial<Protobuf.Mesh.User>;
+  /** Additional nodes reported during the config download */
+  nodes?: Protobuf.Mesh.NodeInfo[];
+  config?: Protobuf.Config.Config[];
+  moduleConfig?: Protobuf.ModuleConfig.ModuleConfig[];
+  channels?: Protobuf.Channel.Channel[];
+  /** Firmware version reported in the device metadata, defaults to `2.5.9` */
+  firmwareVersion?: string;
+}
+
+/** `Config` payload variants, indexed by `AdminMessage_ConfigType` */
+const configVariants = [
+  "device",
+  "position",
+  "power",
+  "network",
+  "display",
+  "lora",
+  "bluetooth",
+  "security",
+  "sessionkey",
+];
+
+/** `ModuleConfig` payload variants, indexed by `AdminMessage_ModuleConfigType` */
+const moduleConfigVariants = [
+  "mqtt",
+  "serial",
+  "externalNotification",
+  "storeForward",
+  "rangeTest",
+  "telemetry",
+  "cannedMessage",
+  "audio",
+  "remoteHardware",
+  "neighborInfo",
+  "ambientLighting",
+  "detectionSensor",
+  "paxcounter",
+];
+
+/**
+ * Scriptable emulation of the device firmware's client API, answers
+ * `ToRadio` messages with the `FromRadio` messages a real device would send.
+ * Intended to be paired with `MockConnection` for testing without hardware.
+ */
+export class MockFirmware {
+  /** Node number of the emulated device */
+  public readonly myNodeNum: number;
+
+  public owner: Protobuf.Mesh.User;
+
+  public metadata: Protobuf.Mesh.DeviceMetadata;
+
+  /** Known nodes, keyed by node number */
+  public readonly nodes: Map<number, Protobuf.Mesh.NodeInfo>;
+
+  /** Device config, keyed by payload variant */
+  public readonly config: Map<string, Protobuf.Config.Config>;
+
+  /** Module config, keyed by payload variant */
+  public readonly moduleConfig: Map<string, Protobuf.ModuleConfig.ModuleConfig>;
+
+  /** Channels, keyed by index */
+  public readonly channels: Map<number, Protobuf.Channel.Channel>;
+
+  /** Canned messages, separated by `|` */
+  public cannedMessages: string;
+
+  /** External notification ringtone, in RTTTL format */
+  public ringtone: string;
+
+  /** Every `ToRadio` message the firmware has received, in order */
+  public readonly received: Protobuf.Mesh.ToRadio[];
+
+  /** Default reply to packets requesting an ack */
+  public ackMode: MockAckMode;
+
+  /** One-off replies, consumed in order before falling back to `ackMode` */
+  private pendingAckModes: MockAckMode[];
+
+  /**
+   * Fires with every serialized `FromRadio` message the firmware emits
+   *
+   * @event onFromRadio
+   */
+  public readonly onFromRadio = new SimpleEventDispatcher<Uint8Array>();
+
+  /**
+   * Fires with every decoded `ToRadio` message the firmware receives
+   *
+   * @event onToRadio
+   */
+  public readonly onToRadio =
+    new SimpleEventDispatcher<Protobuf.Mesh.ToRadio>();
+
+  constructor({
+    myNodeNum = 0x0badc0de,
+    owner,
+    nodes = [],
+    config = [],
+    moduleConfig = [],
+    channels,
+    firmwareVersion = "2.5.9",
+  }: MockFirmwareOptions = {}) {
+    this.myNodeNum = myNodeNum;
+    this.owner = create(Protobuf.Mesh.UserSchema, {
+      id: `!${myNodeNum.toString(16).padStart(8, "0")}`,
+      longName: "Mock Device",
+      shortName: "MOCK",
+      ...owner,
+    });
+    this.metadata = create(Protobuf.Mesh.DeviceMetadataSchema, {
+      firmwareVersion,
+    });
+    this.nodes = new Map();
+    this.config = new Map();
+    this.moduleConfig = new Map();
+    this.channels = new Map();
+    this.cannedMessages = "";
+    this.ringtone = "";
+    this.received = [];
+    this.ackMode = "ack";
+    this.pendingAckModes = [];
+
+    for (const node of nodes) {
+      this.nodes.set(node.num, node);
+    }
+    for (const item of config) {
+      this.config.set(item.payloadVariant.case ?? "", item);
+    }
+    for (const item of moduleConfig) {
+      this.moduleConfig.set(item.payloadVariant.case ?? "", item);
+    }
+    for (const channel of channels ?? [
+      create(Protobuf.Channel.ChannelSchema, {
+        index: 0,
+        role: Protobuf.Channel.Channel_Role.PRIMARY,
+        settings: { psk: new Uint8Array([1]) },
+      }),
+    ]) {
+      this.channels.set(channel.index, channel);
+    }
+  }
+
+  /**
+   * Queues one-off replies for the next packets requesting an ack, e.g.
+   * `failNext(Routing_Error.NO_RESPONSE)`
+   */
+  public failNext(...modes: MockAckMode[]): void {
+    this.pendingAckModes.push(...modes);
+  }
+
+  /** Processes a serialized `ToRadio` message as the firmware would */
+  public handleToRadio(data: Uint8Array): void {
+    const toRadio = fromBinary(Protobuf.Mesh.ToRadioSchema, data);
+    this.received.push(toRadio);
+    this.onToRadio.dispatch(toRadio);
+
+    switch (toRadio.payloadVariant.case) {
+      case "wantConfigId": {
+        this.sendConfig(toRadio.payloadVariant.value);
+        break;
+      }
+      case "packet": {
+        this.handleMeshPacket(toRadio.payloadVariant.value);
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+
+  /** Emits an arbitrary `FromRadio` message */
+  public injectFromRadio(fromRadio: Protobuf.Mesh.FromRadio): void {
+    this.onFromRadio.dispatch(
+      toBinary(Protobuf.Mesh.FromRadioSchema, fromRadio),
+    );
+  }
+
+  /**
+   * Emits a `MeshPacket` as if it had been received from the mesh, missing
+   * header fields are filled in with sensible defaults
+   */
+  public injectPacket(
+    packet: Partial<Protobuf.Mesh.MeshPacket>,
+  ): Protobuf.Mesh.MeshPacket {
+    const meshPacket = create(Protobuf.Mesh.MeshPacketSchema, {
+      id: Math.floor(Math.random() * 1e9),
+      to: broadcastNum,
+      rxTime: Math.trunc(Date.now() / 1000),
+      ...packet,
+    });
+    this.injectFromRadio(
+      create(Protobuf.Mesh.FromRadioSchema, {
+        payloadVariant: { case: "packet", value: meshPacket },
+      }),
+    );
+    return meshPacket;
+  }
+
+  /** Emits a routing packet acknowledging or rejecting `requestId` */
+  public sendRoutingResponse(
+    requestId: number,
+    error: Protobuf.Mesh.Routing_Error = Protobuf.Mesh.Routing_Error.NONE,
+    from: number = this.myNodeNum,
+  ): void {
+    this.injectPacket({
+      from,
+      to: this.myNodeNum,
+      payloadVariant: {
+        case: "decoded",
+        value: create(Protobuf.Mesh.DataSchema, {
+          portnum: Protobuf.Portnums.PortNum.ROUTING_APP,
+          requestId,
+          payload: toBinary(
+            Protobuf.Mesh.RoutingSchema,
+            create(Protobuf.Mesh.RoutingSchema, {
+              variant: { case: "errorReason", value: error },
+            }),
+          ),
+        }),
+      },
+    });
+  }
+
+  /** Replays the config download a device sends in reply to `wantConfigId` */
+  private sendConfig(configId: number): void {
+    const emit = (
+      payloadVariant: Protobuf.Mesh.FromRadio["payloadVariant"],
+    ): void => {
+      this.injectFromRadio(
+        create(Protobuf.Mesh.FromRadioSchema, { payloadVariant }),
+      );
+    };
+
+    emit({
+      case: "myInfo",
+      value: create(Protobuf.Mesh.MyNodeInfoSchema, {
+        myNodeNum: this.myNodeNum,
+      }),
+    });
+    emit({ case: "metadata", value: this.metadata });
+    emit({
+      case: "nodeInfo",
+      value: create(Protobuf.Mesh.NodeInfoSchema, {
+        num: this.myNodeNum,
+        user: this.owner,
+      }),
+    });
+    for (const node of this.nodes.values()) {
+      emit({ case: "nodeInfo", value: node });
+    }
+    for (const channel of this.channels.values()) {
+      emit({ case: "channel", value: channel });
+    }
+    for (const config of this.config.values()) {
+      emit({ case: "config", value: config });
+    }
+    for (const moduleConfig of this.moduleConfig.values()) {
+      emit({ case: "moduleConfig", value: moduleConfig });
+    }
+    emit({ case: "configCompleteId", value: configId });
+  }
+
+  private handleMeshPacket(meshPacket: Protobuf.Mesh.MeshPacket): void {
+    if (
+      meshPacket.payloadVariant.case === "decoded" &&
+      meshPacket.payloadVariant.value.portnum ===
+        Protobuf.Portnums.PortNum.ADMIN_APP &&
+      meshPacket.to === this.myNodeNum
+    ) {
+      this.handleAdminMessage(
+        fromBinary(
+          Protobuf.Admin.AdminMessageSchema,
+          meshPacket.payloadVariant.value.payload,
+        ),
+        meshPacket.id,
+      );
+    }
+
+    if (meshPacket.wantAck) {
+      const mode = this.pendingAckModes.shift() ?? this.ackMode;
+      if (mode === "none") {
+        return;
+      }
+      this.sendRoutingResponse(
+        meshPacket.id,
+        mode === "ack" ? Protobuf.Mesh.Routing_Error.NONE : mode,
+        meshPacket.to === broadcastNum ? this.myNodeNum : meshPacket.to,
+      );
+    }
+  }
+
+  private handleAdminMessage(
+    adminMessage: Protobuf.Admin.AdminMessage,
+    requestId: number,
+  ): void {
+    const respond = (
+      payloadVariant: Protobuf.Admin.AdminMessage["payloadVariant"],
+    ): void => {
+      this.injectPacket({
+        from: this.myNodeNum,
+        to: this.myNodeNum,
+        payloadVariant: {
+          case: "decoded",
+          value: create(Protobuf.Mesh.DataSchema, {
+            portnum: Protobuf.Portnums.PortNum.ADMIN_APP,
+            requestId,
+            payload: toBinary(
+              Protobuf.Admin.AdminMessageSchema,
+              create(Protobuf.Admin.AdminMessageSchema, { payloadVariant }),
+            ),
+          }),
+        },
+      });
+    };
+
+    switch (adminMessage.payloadVariant.case) {
+      case "getConfigRequest": {
+        const variant = configVariants[adminMessage.payloadVariant.value];
+        respond({
+          case: "getConfigResponse",
+          value:
+            this.config.get(variant ?? "") ??
+            create(Protobuf.Config.ConfigSchema, {
+              payloadVariant: { case: variant, value: {} },
+            }),
+        });
+        break;
+      }
+      case "getModuleConfigRequest": {
+        const variant = moduleConfigVariants[adminMessage.payloadVariant.value];
+        respond({
+          case: "getModuleConfigResponse",
+          value:
+            this.moduleConfig.get(variant ?? "") ??
+            create(Protobuf.ModuleConfig.ModuleConfigSchema, {
+              payloadVariant: { case: variant, value: {} },
+            }),
+        });
+        break;
+      }
+      case "getChannelRequest": {
+        const index = adminMessage.payloadVariant.value - 1;
+        respond({
+          case: "getChannelResponse",
+          value:
+            this.channels.get(index) ??
+            create(Protobuf.Channel.ChannelSchema, {
+              index,
+              role: Protobuf.Channel.Channel_Role.DISABLED,
+            }),
+        });
+        break;
+      }
+      case "getOwnerRequest": {
+        respond({ case: "getOwnerResponse", value: this.owner });
+        break;
+      }
+      case "getDeviceMetadataRequest": {
+        respond({ case: "getDeviceMetadataResponse", value: this.metadata });
+        break;
+      }
+      case "getCannedMessageModuleMessagesRequest": {
+        respond({
+          case: "getCannedMessageModuleMessagesResponse",
+          value: this.cannedMessages,
+        });
+        break;
+      }
+      case "getRingtoneRequest": {
+        respond({ case: "getRingtoneResponse", value: this.ringtone });
+        break;
+      }
+      case "setConfig": {
+        const config = adminMessage.payloadVariant.value;
+        this.config.set(config.payloadVariant.case ?? "", config);
+        break;
+      }
+      case "setModuleConfig": {
+        const moduleConfig = adminMessage.payloadVariant.value;
+        this.moduleConfig.set(
+          moduleConfig.payloadVariant.case ?? "",
+          moduleConfig,
+        );
+        break;
+      }
+      case "setChannel": {
+        const channel = adminMessage.payloadVariant.value;
+        this.channels.set(channel.index, channel);
+        break;
+      }
+      case "setOwner": {
+        this.owner = adminMessage.payloadVariant.value;
+        break;
+      }
+      case "setCannedMessageModuleMessages": {
+        this.cannedMessages = adminMessage.payloadVariant.value;
+        break;
+      }
+      case "setRingtoneMessage": {
+        this.ringtone = adminMessage.payloadVariant.value;
+        break;
+      }
+      case "removeByNodenum": {
+        this.nodes.delete(adminMessage.payloadVariant.value);
+        break;
+      }
+      case "nodedbReset": {
+        this.nodes.clear();
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { create } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import type { Logger } from "tslog";
+import type { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+
+/** Checks whether a topic matches an MQTT subscription filter */
+const topicMatches = (filter: string, topic: string): boolean => {
+  const filterLevels = filter.split("/");
+  const topicLevels = topic.split("/");
+
+  for (const [index, level] of filterLevels.entries()) {
+    if (level === "#") {
+      return true;
+    }
+    if (level !== "+" && level !== topicLevels[index]) {
+      return false;
+    }
+  }
+  return filterLevels.length === topicLevels.length;
+};
+
+/**
+ * Acts as the MQTT uplink of a device with `proxyToClientEnabled` set,
+ * publishing the device's MQTT traffic through the supplied client and
+ * forwarding broker messages back to the device
+ */
+export class MqttProxy {
+  private device: MeshDevice;
+
+  private client: Types.MqttClient;
+
+  /** Root topic reported in the device's MQTT module config */
+  private rootTopic: string;
+
+  private subscriptions: string[];
+
+  private status: Types.MqttProxyStatusEnum;
+
+  private unsubscribers: (() => void)[];
+
+  /** Tracks the root topic, removed once the proxy is stopped */
+  private unsubscribeModuleConfig: (() => void) | undefined;
+
+  private log: Logger<unknown>;
+
+  constructor(device: MeshDevice, client: Types.MqttClient) {
+    this.device = device;
+    this.client = client;
+    this.rootTopic = "msh";
+    this.subscriptions = [];
+    this.status = Types.MqttProxyStatusEnum.ProxyStopped;
+    this.unsubscribers = [];
+    this.log = device.log.getSubLogger({ name: "MqttProxy" });
+    this.unsubscribeModuleConfig = this.watchModuleConfig();
+  }
+
+  /** Current connection state of the proxy */
+  public getStatus(): Types.MqttProxyStatusEnum {
+    return this.status;
+  }
+
+  /**
+   * Starts relaying traffic. Subscribes to all encrypted channel topics below
+   * the device's root topic unless specific subscriptions are supplied.
+   */
+  public async start(subscriptions?: string[]): Promise<void> {
+    if (this.status !== Types.MqttProxyStatusEnum.ProxyStopped) {
+      return;
+    }
+    this.updateStatus(Types.MqttProxyStatusEnum.ProxyConnecting);
+
+    this.unsubscribeModuleConfig ??= this.watchModuleConfig();
+    this.subscriptions = subscriptions ?? [`${this.rootTopic}/2/e/#`];
+
+    this.unsubscribers = [
+      this.device.events.onMqttClientProxyMessage.subscribe((message) => {
+        this.publish(message).catch((e: Error) => {
+          this.log.error(
+            Types.Emitter[Types.Emitter.HandleFromRadio],
+            `❌ Failed to publish to ${message.topic}`,
+            e,
+          );
+        });
+      }),
+      this.client.onMessage((topic, payload, retained) => {
+        if (!this.subscriptions.some((filter) => topicMatches(filter, topic))) {
+          return;
+        }
+        this.device
+          .sendMqttClientProxyMessage(
+            create(Protobuf.Mesh.MqttClientProxyMessageSchema, {
+              topic,
+              retained,
+              payloadVariant: { case: "data", value: payload },
+            }),
+          )
+          .catch((e: Error) => {
+            this.log.error(
+              Types.Emitter[Types.Emitter.SendMqttClientProxyMessage],
+              `❌ Failed to forward ${topic} to device`,
+              e,
+            );
+          });
+      }),
+    ];
+
+    const unsubscribeStatus = this.client.onStatusChange?.((connected) => {
+      this.updateStatus(
+        connected
+          ? Types.MqttProxyStatusEnum.ProxyConnected
+          : Types.MqttProxyStatusEnum.ProxyDisconnected,
+      );
+    });
+    if (unsubscribeStatus) {
+      this.unsubscribers.push(unsubscribeStatus);
+    }
+
+    await Promise.all(
+      this.subscriptions.map((topic) => this.client.subscribe(topic)),
+    )
+      .then(() => {
+        this.updateStatus(Types.MqttProxyStatusEnum.ProxyConnected);
+      })
+      .catch((e: Error) => {
+        this.log.error(
+          Types.Emitter[Types.Emitter.Connect],
+          "❌ Failed to subscribe to MQTT topics",
+          e,
+        );
+        this.updateStatus(Types.MqttProxyStatusEnum.ProxyDisconnected);
+      });
+  }
+
+  /** Stops relaying traffic, the client itself is left connected */
+  public async stop(): Promise<void> {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    this.unsubscribeModuleConfig?.();
+    this.unsubscribeModuleConfig = undefined;
+    await Promise.all(
+      this.subscriptions.map((topic) => this.client.unsubscribe(topic)),
+    ).catch(() => {});
+    this.subscriptions = [];
+    this.updateStatus(Types.MqttProxyStatusEnum.ProxyStopped);
+  }
+
+  private watchModuleConfig(): () => void {
+    return this.device.events.onModuleConfigPacket.subscribe((moduleConfig) => {
+      if (moduleConfig.payloadVariant.case !== "mqtt") {
+        return;
+      }
+      const { root, proxyToClientEnabled } = moduleConfig.payloadVariant.value;
+      this.rootTopic = root || "msh";
+      if (!proxyToClientEnabled) {
+        this.log.warn(
+          Types.Emitter[Types.Emitter.GetModuleConfig],
+          "⚠️ MQTT client proxy is disabled in the device's MQTT module config",
+        );
+      }
+    });
+  }
+
+  /** Publishes a device originated message to the broker */
+  private async publish(
+    message: Protobuf.Mesh.MqttClientProxyMessage,
+  ): Promise<void> {
+    switch (message.payloadVariant.case) {
+      case "data":
+      case "text": {
+        await this.client.publish(
+          message.topic,
+          message.payloadVariant.value,
+          message.retained,
+        );
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+
+  private updateStatus(status: Types.MqttProxyStatusEnum): void {
+    if (status !== this.status) {
+      this.status = status;
+      this.device.events.onMqttProxyStatus.dispatch(status);
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import type { Logger } from "tslog";
+import type { MeshDevice } from "../meshDevice.ts";
+import { Emitter, type MultiplexClientSocket } from "../types.ts";
+
+/** Number of packet ids remembered for routing responses back to clients */
+const ownedPacketsLimit = 1024;
+
+/** Packet a client sent, with the id the client chose for it */
+interface OwnedPacket {
+  socket: MultiplexClientSocket;
+  id: number;
+}
+
+/**
+ * Shares a single connected device with many remote clients, e.g. over
+ * WebSocket. Each client receives the device's config snapshot on
+ * `wantConfigId` and every subsequent FromRadio message, while responses to
+ * packets a client sent are only delivered to that client.
+ *
+ * The snapshot is collected from the device's config download, call
+ * `refresh()` when the server is created for an already configured device.
+ */
+export class MultiplexServer {
+  private device: MeshDevice;
+
+  private clients: Set<MultiplexClientSocket>;
+
+  /**
+   * Client that sent each packet, keyed by the id the packet was forwarded
+   * with. Packets are forwarded with ids unique across clients, responses
+   * get the client's own id restored.
+   */
+  private ownedPackets: Map<number, OwnedPacket>;
+
+  private myInfo: Protobuf.Mesh.FromRadio | undefined;
+
+  private metadata: Protobuf.Mesh.FromRadio | undefined;
+
+  private nodeInfos: Map<number, Protobuf.Mesh.FromRadio>;
+
+  private configs: Map<string, Protobuf.Mesh.FromRadio>;
+
+  private moduleConfigs: Map<string, Protobuf.Mesh.FromRadio>;
+
+  private channels: Map<number, Protobuf.Mesh.FromRadio>;
+
+  private unsubscribers: (() => void)[];
+
+  private log: Logger<unknown>;
+
+  constructor(device: MeshDevice) {
+    this.device = device;
+    this.log = device.log.getSubLogger({ name: "MultiplexServer" });
+    this.clients = new Set();
+    this.ownedPackets = new Map();
+    this.myInfo = undefined;
+    this.metadata = undefined;
+    this.nodeInfos = new Map();
+    this.configs = new Map();
+    this.moduleConfigs = new Map();
+    this.channels = new Map();
+
+    this.unsubscribers = [
+      this.device.events.onRawFromRadio.subscribe((data) =>
+        this.handleFromRadio(data),
+      ),
+    ];
+  }
+
+  /** Number of currently attached clients */
+  public get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /** Requests a new config download from the device to rebuild the snapshot */
+  public refresh(): Promise<number> {
+    return this.device.configure();
+  }
+
+  /** Attaches a client, returns a function detaching it again */
+  public attach(socket: MultiplexClientSocket): () => void {
+    this.clients.add(socket);
+    socket.onMessage((data) => this.handleToRadio(socket, data));
+    socket.onClose(() => this.detach(socket));
+    return () => this.detach(socket);
+  }
+
+  /** Detaches all clients and stops listening to the device */
+  public close(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    for (const socket of this.clients) {
+      socket.close?.();
+    }
+    this.clients.clear();
+    this.ownedPackets.clear();
+  }
+
+  private detach(socket: MultiplexClientSocket): void {
+    this.clients.delete(socket);
+    for (const [id, owner] of this.ownedPackets) {
+      if (owner.socket === socket) {
+        this.ownedPackets.delete(id);
+      }
+    }
+  }
+
+  /** Caches config messages and fans messages out to clients */
+  private handleFromRadio(data: Uint8Array): void {
+    const fromRadio = fromBinary(Protobuf.Mesh.FromRadioSchema, data);
+
+    switch (fromRadio.payloadVariant.case) {
+      case "myInfo": {
+        this.myInfo = fromRadio;
+        break;
+      }
+      case "metadata": {
+        this.metadata = fromRadio;
+        break;
+      }
+      case "nodeInfo": {
+        this.nodeInfos.set(fromRadio.payloadVariant.value.num, fromRadio);
+        break;
+      }
+      case "config": {
+        this.configs.set(
+          fromRadio.payloadVariant.value.payloadVariant.case ?? "",
+          fromRadio,
+        );
+        break;
+      }
+      case "moduleConfig": {
+        this.moduleConfigs.set(
+          fromRadio.payloadVariant.value.payloadVariant.case ?? "",
+          fromRadio,
+        );
+        break;
+      }
+      case "channel": {
+        this.channels.set(fromRadio.payloadVariant.value.index, fromRadio);
+        break;
+      }
+      case "configCompleteId": {
+        /** Completes the server's config download, clients get their own */
+        return;
+      }
+      case "packet": {
+        const packet = fromRadio.payloadVariant.value;
+        if (packet.payloadVariant.case !== "decoded") {
+          break;
+        }
+        const decoded = packet.payloadVariant.value;
+        const owner = this.ownedPackets.get(decoded.requestId);
+        if (owner) {
+          decoded.requestId = owner.id;
+          owner.socket.send(toBinary(Protobuf.Mesh.FromRadioSchema, fromRadio));
+          return;
+        }
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+
+    for (const socket of this.clients) {
+      socket.send(data);
+    }
+  }
+
+  /** Handles a ToRadio message sent by a client */
+  private handleToRadio(socket: MultiplexClientSocket, data: Uint8Array): void {
+    let toRadio: Protobuf.Mesh.ToRadio;
+    try {
+      toRadio = fromBinary(Protobuf.Mesh.ToRadioSchema, data);
+    } catch {
+      this.log.warn(
+        Emitter[Emitter.WriteToRadio],
+        "⚠️ Discarding malformed ToRadio message from client",
+      );
+      return;
+    }
+
+    switch (toRadio.payloadVariant.case) {
+      case "wantConfigId": {
+        this.sendSnapshot(socket, toRadio.payloadVariant.value);
+        break;
+      }
+      case "packet": {
+        const packet = toRadio.payloadVariant.value;
+        const id = this.allocateId();
+        this.ownedPackets.set(id, { socket, id: packet.id });
+        packet.id = id;
+        if (this.ownedPackets.size > ownedPacketsLimit) {
+          const oldest = this.ownedPackets.keys().next().value;
+          if (oldest !== undefined) {
+            this.ownedPackets.delete(oldest);
+          }
+        }
+        this.device
+          .sendRaw(toBinary(Protobuf.Mesh.ToRadioSchema, toRadio), id)
+          .catch(() => {
+            // Errors are routed back to the owning client as routing packets
+          });
+        break;
+      }
+      case "mqttClientProxyMessage": {
+        this.device
+          .sendMqttClientProxyMessage(toRadio.payloadVariant.value)
+          .catch(() => {});
+        break;
+      }
+      case "disconnect": {
+        this.detach(socket);
+        break;
+      }
+      default: {
+        /** Heartbeats and other link level messages are handled by the server */
+        break;
+      }
+    }
+  }
+
+  /** Picks a random packet id not used by any packet still owned */
+  private allocateId(): number {
+    let id: number;
+    do {
+      id = crypto.getRandomValues(new Uint32Array(1))[0] ?? 0;
+    } while (id === 0 || this.ownedPackets.has(id));
+    return id;
+  }
+
+  /** Replays the cached config download to a single client */
+  private sendSnapshot(socket: MultiplexClientSocket, configId: number): void {
+    const messages = [
+      this.myInfo,
+      this.metadata,
+      ...this.nodeInfos.values(),
+      ...this.channels.values(),
+      ...this.configs.values(),
+      ...this.moduleConfigs.values(),
+      create(Protobuf.Mesh.FromRadioSchema, {
+        payloadVariant: { case: "configCompleteId", value: configId },
+      }),
+    ];
+
+    for (const message of messages) {
+      if (message) {
+        socket.send(toBinary(Protobuf.Mesh.FromRadioSchema, message));
+      }
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import type * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import type { NodeRecord, PacketMetadata } from "../types.ts";
+import type { EventSystem } from "./eventSystem.ts";
+
+/**
+ * Aggregates everything learned about each node from node info, user,
+ * position, telemetry and mesh packets into one record per node number
+ */
+export class NodeDB {
+  /**
+   * Fires when a node is seen for the first time
+   *
+   * @event onNodeAdded
+   */
+  public readonly onNodeAdded = new SimpleEventDispatcher<NodeRecord>();
+
+  /**
+   * Fires when a known node's record changes
+   *
+   * @event onNodeUpdated
+   */
+  public readonly onNodeUpdated = new SimpleEventDispatcher<NodeRecord>();
+
+  /**
+   * Fires with the node number when a node is removed or evicted
+   *
+   * @event onNodeRemoved
+   */
+  public readonly onNodeRemoved = new SimpleEventDispatcher<number>();
+
+  /**
+   * Least recently heard nodes are evicted once this many are known, the
+   * device's own node is never evicted
+   */
+  public maxNodes: number;
+
+  private nodes: Map<number, NodeRecord>;
+
+  /** Node number of the connected device */
+  private myNodeNum: number | undefined;
+
+  constructor(events: EventSystem, maxNodes = Number.POSITIVE_INFINITY) {
+    this.maxNodes = maxNodes;
+    this.nodes = new Map();
+    this.myNodeNum = undefined;
+
+    events.onMyNodeInfo.subscribe((myNodeInfo) => {
+      this.myNodeNum = myNodeInfo.myNodeNum;
+    });
+    events.onNodeInfoPacket.subscribe((nodeInfo) =>
+      this.handleNodeInfo(nodeInfo),
+    );
+    events.onUserPacket.subscribe(({ from, data }) =>
+      this.update(from, { user: data }),
+    );
+    events.onPositionPacket.subscribe(({ from, data }) =>
+      this.update(from, { position: data }),
+    );
+    events.onTelemetryPacket.subscribe((packet) =>
+      this.handleTelemetry(packet),
+    );
+    events.onMeshPacket.subscribe((meshPacket) =>
+      this.handleMeshPacket(meshPacket),
+    );
+  }
+
+  /** Number of known nodes */
+  public get size(): number {
+    return this.nodes.size;
+  }
+
+  /** Gets a node by node number */
+  public get(num: number): NodeRecord | undefined {
+    return this.nodes.get(num);
+  }
+
+  /** Gets the record of the connected device's own node */
+  public getOwnNode(): NodeRecord | undefined {
+    return this.myNodeNum === undefined
+      ? undefined
+      : this.nodes.get(this.myNodeNum);
+  }
+
+  /** Gets all known nodes */
+  public getAll(): NodeRecord[] {
+    return [...this.nodes.values()];
+  }
+
+  /** Gets a node by user id, e.g. `!0badc0de` */
+  public getById(id: string): NodeRecord | undefined {
+    return this.getAll().find((node) => node.user?.id === id);
+  }
+
+  /** Gets all nodes using the supplied short name, which is not unique */
+  public getByShortName(shortName: string): NodeRecord[] {
+    return this.getAll().filter((node) => node.user?.shortName === shortName);
+  }
+
+  /** Gets all nodes heard since the supplied date, most recent first */
+  public getHeardSince(since: Date): NodeRecord[] {
+    return this.getAll()
+      .filter((node) => node.lastHeard && node.lastHeard >= since)
+      .sort(
+        (a, b) => (b.lastHeard?.getTime() ?? 0) - (a.lastHeard?.getTime() ?? 0),
+      );
+  }
+
+  /**
+   * Adds previously persisted records, nodes that have been heard from since
+   * are left untouched
+   */
+  public restore(records: NodeRecord[]): void {
+    for (const record of records) {
+      if (!this.nodes.has(record.num)) {
+        this.update(record.num, record);
+      }
+    }
+  }
+
+  /** Removes a node, returns whether it was known */
+  public remove(num: number): boolean {
+    if (!this.nodes.delete(num)) {
+      return false;
+    }
+    this.onNodeRemoved.dispatch(num);
+    return true;
+  }
+
+  /** Removes all nodes except the device's own node */
+  public clear(): void {
+    for (const num of [...this.nodes.keys()]) {
+      if (num !== this.myNodeNum) {
+        this.remove(num);
+      }
+    }
+  }
+
+  /** Removes all nodes not heard since the supplied date, returns the count */
+  public evictHeardBefore(before: Date): number {
+    let evicted = 0;
+    for (const node of this.getAll()) {
+      if (
+        node.num !== this.myNodeNum &&
+        (!node.lastHeard || node.lastHeard < before)
+      ) {
+        this.remove(node.num);
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  /** Merges the supplied fields into a node's record */
+  private update(num: number, fields: Partial<NodeRecord>): void {
+    const existing = this.nodes.get(num);
+    const node: NodeRecord = {
+      ...(existing ?? { viaMqtt: false }),
+      ...fields,
+      num,
+    };
+    this.nodes.set(num, node);
+
+    if (existing) {
+      this.onNodeUpdated.dispatch(node);
+      return;
+    }
+    this.onNodeAdded.dispatch(node);
+    this.evictExcess();
+  }
+
+  private evictExcess(): void {
+    if (this.nodes.size <= this.maxNodes) {
+      return;
+    }
+    const candidates = this.getAll()
+      .filter((node) => node.num !== this.myNodeNum)
+      .sort(
+        (a, b) => (a.lastHeard?.getTime() ?? 0) - (b.lastHeard?.getTime() ?? 0),
+      );
+    for (const node of candidates.slice(0, this.nodes.size - this.maxNodes)) {
+      this.remove(node.num);
+    }
+  }
+
+  private handleNodeInfo(nodeInfo: Protobuf.Mesh.NodeInfo): void {
+    const fields: Partial<NodeRecord> = { viaMqtt: nodeInfo.viaMqtt };
+    if (nodeInfo.user) {
+      fields.user = nodeInfo.user;
+    }
+    if (nodeInfo.position) {
+      fields.position = nodeInfo.position;
+    }
+    if (nodeInfo.deviceMetrics) {
+      fields.deviceMetrics = nodeInfo.deviceMetrics;
+    }
+    if (nodeInfo.lastHeard) {
+      fields.lastHeard = new Date(nodeInfo.lastHeard * 1000);
+    }
+    if (nodeInfo.snr) {
+      fields.snr = nodeInfo.snr;
+    }
+    if (nodeInfo.hopsAway !== undefined) {
+      fields.hopsAway = nodeInfo.hopsAway;
+    }
+    this.update(nodeInfo.num, fields);
+  }
+
+  private handleTelemetry({
+    from,
+    data,
+  }: PacketMetadata<Protobuf.Telemetry.Telemetry>): void {
+    switch (data.variant.case) {
+      case "deviceMetrics": {
+        this.update(from, { deviceMetrics: data.variant.value });
+        break;
+      }
+      case "environmentMetrics": {
+        this.update(from, { environmentMetrics: data.variant.value });
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+
+  private handleMeshPacket(meshPacket: Protobuf.Mesh.MeshPacket): void {
+    if (!meshPacket.from || meshPacket.from === this.myNodeNum) {
+      return;
+    }
+    const fields: Partial<NodeRecord> = {
+      lastHeard: meshPacket.rxTime
+        ? new Date(meshPacket.rxTime * 1000)
+        : new Date(),
+      viaMqtt: meshPacket.viaMqtt,
+    };
+    if (meshPacket.rxSnr) {
+      fields.snr = meshPacket.rxSnr;
+    }
+    if (meshPacket.rxRssi) {
+      fields.rssi = meshPacket.rxRssi;
+    }
+    /** Packets from firmware older than 2.3 do not carry `hopStart` */
+    if (meshPacket.hopStart) {
+      fields.hopsAway = meshPacket.hopStart - meshPacket.hopLimit;
+    }
+    this.update(meshPacket.from, fields);
+  }
+}
@@ -0,0 +1,352 @@
+import {
+  type DescMessage,
+  type MessageShape,
+  fromBinary,
+  toBinary,
+} from "@bufbuild/protobuf";
+import { base64Decode, base64Encode } from "@bufbuild/protobuf/wire";
+import * as Protobuf from "@meshtastic/protobufs";
+import type { Logger } from "tslog";
+import type { MeshDevice } from "../meshDevice.ts";
+import {
+  Emitter,
+  type PacketMetadata,
+  type PersistenceOptions,
+  type StorageBackend,
+} from "../types.ts";
+
+/** Current layout version of persisted state */
+export const persistenceVersion = 1;
+
+interface PersistedNode {
+  num: number;
+  user?: string;
+  position?: string;
+  deviceMetrics?: string;
+  environmentMetrics?: string;
+  lastHeard?: number;
+  snr?: number;
+  rssi?: number;
+  hopsAway?: number;
+  viaMqtt: boolean;
+}
+
+interface PersistedMessage extends Omit<PacketMetadata<string>, "rxTime"> {
+  rxTime: number;
+}
+
+/** Layout of persisted state, protobuf messages are stored as base64 */
+interface PersistedState {
+  version: number;
+  myNodeNum: number;
+  nodes: PersistedNode[];
+  messages: PersistedMessage[];
+  channels: string[];
+  config: string[];
+  moduleConfig: string[];
+}
+
+type Migration = (state: PersistedState) => PersistedState;
+
+/**
+ * Upgrades state saved with the layout version used as key to the next
+ * version, add an entry whenever `persistenceVersion` is increased
+ */
+const migrations: Record<number, Migration> = {};
+
+const encode = <Desc extends DescMessage>(
+  schema: Desc,
+  message: MessageShape<Desc>,
+): string => base64Encode(toBinary(schema, message));
+
+const decode = <Desc extends DescMessage>(
+  schema: Desc,
+  data: string,
+): MessageShape<Desc> => fromBinary(schema, base64Decode(data));
+
+/** Applies migrations, returns `undefined` for unknown layout versions */
+const migrate = (state: PersistedState): PersistedState | undefined => {
+  let migrated = state;
+  while (migrated.version < persistenceVersion) {
+    const migration = migrations[migrated.version];
+    if (!migration) {
+      return undefined;
+    }
+    migrated = migration(migrated);
+  }
+  return migrated.version === persistenceVersion ? migrated : undefined;
+};
+
+/**
+ * Persists node records, received text messages, channels and the last
+ * config snapshot of a device keyed by its node number, and restores them as
+ * soon as the device reports its node number on the next connect. Restored
+ * channels and config are dispatched through the device's events, so they
+ * are shown before the config download completes.
+ */
+export class DevicePersistence {
+  private device: MeshDevice;
+
+  private backend: StorageBackend;
+
+  private maxMessages: number;
+
+  private saveDelay: number;
+
+  /** Node number state is currently kept for */
+  private myNodeNum: number | undefined;
+
+  private channels: Map<number, Protobuf.Channel.Channel>;
+
+  private config: Map<string, Protobuf.Config.Config>;
+
+  private moduleConfig: Map<string, Protobuf.ModuleConfig.ModuleConfig>;
+
+  private messageLog: PacketMetadata<string>[];
+
+  private saveTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  private unsubscribers: (() => void)[];
+
+  private log: Logger<unknown>;
+
+  constructor(
+    device: MeshDevice,
+    backend: StorageBackend,
+    { maxMessages = 500, saveDelay = 1000 }: PersistenceOptions = {},
+  ) {
+    this.device = device;
+    this.log = device.log.getSubLogger({ name: "DevicePersistence" });
+    this.backend = backend;
+    this.maxMessages = maxMessages;
+    this.saveDelay = saveDelay;
+    this.myNodeNum = undefined;
+    this.channels = new Map();
+    this.config = new Map();
+    this.moduleConfig = new Map();
+    this.messageLog = [];
+    this.saveTimeout = undefined;
+
+    const { events, nodeDB } = device;
+    this.unsubscribers = [
+      events.onMyNodeInfo.subscribe(({ myNodeNum }) => {
+        if (myNodeNum === this.myNodeNum) {
+          return;
+        }
+        this.reset(myNodeNum);
+        this.restore(myNodeNum).catch((e: Error) => {
+          this.log.error(
+            Emitter[Emitter.Configure],
+            `❌ Failed to restore state of node ${myNodeNum}`,
+            e,
+          );
+        });
+      }),
+      events.onChannelPacket.subscribe((channel) => {
+        this.channels.set(channel.index, channel);
+        this.scheduleSave();
+      }),
+      events.onConfigPacket.subscribe((config) => {
+        this.config.set(config.payloadVariant.case ?? "", config);
+        this.scheduleSave();
+      }),
+      events.onModuleConfigPacket.subscribe((moduleConfig) => {
+        this.moduleConfig.set(
+          moduleConfig.payloadVariant.case ?? "",
+          moduleConfig,
+        );
+        this.scheduleSave();
+      }),
+      events.onMessagePacket.subscribe((message) => {
+        this.messageLog.push(message);
+        this.messageLog.splice(0, this.messageLog.length - this.maxMessages);
+        this.scheduleSave();
+      }),
+      nodeDB.onNodeAdded.subscribe(() => this.scheduleSave()),
+      nodeDB.onNodeUpdated.subscribe(() => this.scheduleSave()),
+      nodeDB.onNodeRemoved.subscribe(() => this.scheduleSave()),
+    ];
+  }
+
+  /** Text messages received or restored, oldest first */
+  public get messages(): PacketMetadata<string>[] {
+    return [...this.messageLog];
+  }
+
+  /**
+   * Restores the state persisted for the supplied node number, returns
+   * whether any state was found. Anything received since connecting takes
+   * precedence over restored state.
+   */
+  public async restore(myNodeNum: number): Promise<boolean> {
+    const serialized = await this.backend.get(this.key(myNodeNum));
+    if (!serialized || myNodeNum !== this.myNodeNum) {
+      return false;
+    }
+
+    const state = migrate(JSON.parse(serialized) as PersistedState);
+    if (!state) {
+      this.log.warn(
+        Emitter[Emitter.Configure],
+        `⚠️ Discarding persisted state of node ${myNodeNum} with unsupported layout`,
+      );
+      return false;
+    }
+
+    this.device.nodeDB.restore(
+      state.nodes.map((node) => ({
+        ...node,
+        user: node.user
+          ? decode(Protobuf.Mesh.UserSchema, node.user)
+          : undefined,
+        position: node.position
+          ? decode(Protobuf.Mesh.PositionSchema, node.position)
+          : undefined,
+        deviceMetrics: node.deviceMetrics
+          ? decode(Protobuf.Telemetry.DeviceMetricsSchema, node.deviceMetrics)
+          : undefined,
+        environmentMetrics: node.environmentMetrics
+          ? decode(
+              Protobuf.Telemetry.EnvironmentMetricsSchema,
+              node.environmentMetrics,
+            )
+          : undefined,
+        lastHeard: node.lastHeard ? new Date(node.lastHeard) : undefined,
+      })),
+    );
+
+    const receivedMessages = this.messageLog;
+    this.messageLog = [
+      ...state.messages.map((message) => ({
+        ...message,
+        rxTime: new Date(message.rxTime),
+      })),
+      ...receivedMessages,
+    ].slice(-this.maxMessages);
+
+    for (const data of state.channels) {
+      const channel = decode(Protobuf.Channel.ChannelSchema, data);
+      if (!this.channels.has(channel.index)) {
+        this.device.events.onChannelPacket.dispatch(channel);
+      }
+    }
+    for (const data of state.config) {
+      const config = decode(Protobuf.Config.ConfigSchema, data);
+      if (!this.config.has(config.payloadVariant.case ?? "")) {
+        this.device.events.onConfigPacket.dispatch(config);
+      }
+    }
+    for (const data of state.moduleConfig) {
+      const moduleConfig = decode(
+        Protobuf.ModuleConfig.ModuleConfigSchema,
+        data,
+      );
+      if (!this.moduleConfig.has(moduleConfig.payloadVariant.case ?? "")) {
+        this.device.events.onModuleConfigPacket.dispatch(moduleConfig);
+      }
+    }
+
+    return true;
+  }
+
+  /** Saves the current state immediately */
+  public async save(): Promise<void> {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = undefined;
+    }
+    if (this.myNodeNum === undefined) {
+      return;
+    }
+
+    const state: PersistedState = {
+      version: persistenceVersion,
+      myNodeNum: this.myNodeNum,
+      nodes: this.device.nodeDB.getAll().map((node) => ({
+        num: node.num,
+        user: node.user && encode(Protobuf.Mesh.UserSchema, node.user),
+        position:
+          node.position && encode(Protobuf.Mesh.PositionSchema, node.position),
+        deviceMetrics:
+          node.deviceMetrics &&
+          encode(Protobuf.Telemetry.DeviceMetricsSchema, node.deviceMetrics),
+        environmentMetrics:
+          node.environmentMetrics &&
+          encode(
+            Protobuf.Telemetry.EnvironmentMetricsSchema,
+            node.environmentMetrics,
+          ),
+        lastHeard: node.lastHeard?.getTime(),
+        snr: node.snr,
+        rssi: node.rssi,
+        hopsAway: node.hopsAway,
+        viaMqtt: node.viaMqtt,
+      })),
+      messages: this.messageLog.map((message) => ({
+        ...message,
+        rxTime: message.rxTime.getTime(),
+      })),
+      channels: [...this.channels.values()].map((channel) =>
+        encode(Protobuf.Channel.ChannelSchema, channel),
+      ),
+      config: [...this.config.values()].map((config) =>
+        encode(Protobuf.Config.ConfigSchema, config),
+      ),
+      moduleConfig: [...this.moduleConfig.values()].map((moduleConfig) =>
+        encode(Protobuf.ModuleConfig.ModuleConfigSchema, moduleConfig),
+      ),
+    };
+
+    await this.backend.set(this.key(this.myNodeNum), JSON.stringify(state));
+  }
+
+  /** Deletes the persisted state of the current node */
+  public async clear(): Promise<void> {
+    if (this.myNodeNum !== undefined) {
+      await this.backend.delete(this.key(this.myNodeNum));
+    }
+  }
+
+  /** Stops persisting changes, pending changes are saved */
+  public async stop(): Promise<void> {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    if (this.saveTimeout) {
+      await this.save();
+    }
+  }
+
+  private key(myNodeNum: number): string {
+    return `meshtastic:${myNodeNum}`;
+  }
+
+  /** Drops state kept for a previously connected device */
+  private reset(myNodeNum: number): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = undefined;
+    }
+    this.myNodeNum = myNodeNum;
+    this.channels.clear();
+    this.config.clear();
+    this.moduleConfig.clear();
+    this.messageLog = [];
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout || this.myNodeNum === undefined) {
+      return;
+    }
+    this.saveTimeout = setTimeout(() => {
+      this.save().catch((e: Error) => {
+        this.log.error(
+          Emitter[Emitter.HandleFromRadio],
+          "❌ Failed to persist device state",
+          e,
+        );
+      });
+    }, this.saveDelay);
+  }
+}
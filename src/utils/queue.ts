@@ -8,8 +8,21 @@ export class Queue {
   private lock = false;
   private ackNotifier = new SimpleEventDispatcher<number>();
   private errorNotifier = new SimpleEventDispatcher<PacketError>();
+  private cancelNotifier = new SimpleEventDispatcher<{
+    id: number;
+    reason: string;
+  }>();
   private timeout: number;
 
+  /** Fires with every item added to the queue */
+  public readonly onItemQueued = new SimpleEventDispatcher<QueueItem>();
+
+  /** Fires with the id of every item written to the radio */
+  public readonly onItemSent = new SimpleEventDispatcher<number>();
+
+  /** Fires with the id of every item that was never acknowledged in time */
+  public readonly onItemTimeout = new SimpleEventDispatcher<number>();
+
   constructor() {
     this.timeout = 60000;
   }
@@ -22,6 +35,16 @@ export class Queue {
     this.queue = [];
   }
 
+  /**
+   * Marks all items that were written but not yet acknowledged as unsent, so
+   * they are written again by the next `processQueue` run
+   */
+  public requeueUnacked(): void {
+    for (const item of this.queue) {
+      item.sent = false;
+    }
+  }
+
   public push(item: Omit<QueueItem, "promise" | "sent" | "added">): void {
     const queueItem: QueueItem = {
       ...item,
@@ -40,6 +63,12 @@ export class Queue {
             reject(e);
           }
         });
+        this.cancelNotifier.subscribe(({ id, reason }) => {
+          if (item.id === id) {
+            this.remove(item.id);
+            reject(new Error(reason));
+          }
+        });
         setTimeout(() => {
           if (this.queue.findIndex((qi) => qi.id === item.id) !== -1) {
             this.remove(item.id);
@@ -47,6 +76,7 @@ export class Queue {
             console.warn(
               `Packet ${item.id} of type ${decoded.payloadVariant.case} timed out`,
             );
+            this.onItemTimeout.dispatch(item.id);
 
             reject({
               id: item.id,
@@ -57,6 +87,7 @@ export class Queue {
       }),
     };
     this.queue.push(queueItem);
+    this.onItemQueued.dispatch(queueItem);
   }
 
   public remove(id: number): void {
@@ -67,6 +98,11 @@ export class Queue {
     this.queue = this.queue.filter((item) => item.id !== id);
   }
 
+  /** Removes an item, rejecting its promise with the supplied reason */
+  public cancel(id: number, reason: string): void {
+    this.cancelNotifier.dispatch({ id, reason });
+  }
+
   public processAck(id: number): void {
     this.ackNotifier.dispatch(id);
   }
@@ -102,6 +138,10 @@ export class Queue {
         try {
           await writeToRadio(item.data);
           item.sent = true;
+          this.onItemSent.dispatch(item.id);
+          if (item.resolveOnWrite) {
+            this.processAck(item.id);
+          }
         } catch (error) {
           console.error(`Error sending packet ${item.id}`, error);
         }
@@ -0,0 +1,312 @@
+import * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import type { Logger } from "tslog";
+import type { MeshDevice } from "../meshDevice.ts";
+import {
+  Emitter,
+  type PacketMetadata,
+  type RangeTestPosition,
+  type RangeTestRange,
+  type RangeTestRecord,
+  type RangeTestSenderOptions,
+  type RangeTestStats,
+} from "../types.ts";
+
+/** Payload format used by the firmware's range test module */
+const sequencePattern = /^seq (\d+)$/;
+
+/** Mean earth radius in metres */
+const earthRadius = 6371008.8;
+
+/** Great circle distance between two positions in metres */
+export const distanceBetween = (
+  a: RangeTestPosition,
+  b: RangeTestPosition,
+): number => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLatitude = toRadians(b.latitude - a.latitude);
+  const dLongitude = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLongitude / 2) ** 2;
+  return 2 * earthRadius * Math.asin(Math.sqrt(h));
+};
+
+const toPosition = (
+  position: Protobuf.Mesh.Position | undefined,
+): RangeTestPosition | undefined => {
+  if (!position?.latitudeI && !position?.longitudeI) {
+    return undefined;
+  }
+  const result: RangeTestPosition = {
+    latitude: (position.latitudeI ?? 0) / 1e7,
+    longitude: (position.longitudeI ?? 0) / 1e7,
+  };
+  if (position.altitude) {
+    result.altitude = position.altitude;
+  }
+  return result;
+};
+
+const toRange = (values: number[]): RangeTestRange | undefined =>
+  values.length === 0
+    ? undefined
+    : {
+        min: Math.min(...values),
+        max: Math.max(...values),
+        mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+      };
+
+/**
+ * Runs range tests compatible with the firmware's range test module, either
+ * as a sender transmitting numbered packets or as a receiver recording each
+ * packet with its signal, the sender's last reported position and the
+ * position of the connected node
+ */
+export class RangeTest {
+  /**
+   * Fires with every range test packet received
+   *
+   * @event onRangeTestRecord
+   */
+  public readonly onRangeTestRecord =
+    new SimpleEventDispatcher<RangeTestRecord>();
+
+  private device: MeshDevice;
+
+  private records: RangeTestRecord[];
+
+  /** Signal of the last mesh packet, consumed by its range test payload */
+  private lastMeshPacket: Protobuf.Mesh.MeshPacket | undefined;
+
+  private senderInterval: ReturnType<typeof setInterval> | undefined;
+
+  private sequence: number;
+
+  private log: Logger<unknown>;
+
+  constructor(device: MeshDevice) {
+    this.device = device;
+    this.log = device.log.getSubLogger({ name: "RangeTest" });
+    this.records = [];
+    this.lastMeshPacket = undefined;
+    this.senderInterval = undefined;
+    this.sequence = 0;
+
+    device.events.onMeshPacket.subscribe((meshPacket) => {
+      this.lastMeshPacket = meshPacket;
+    });
+    device.events.onRangeTestPacket.subscribe((packet) =>
+      this.handlePacket(packet),
+    );
+  }
+
+  /** Whether the sender is running */
+  public get sending(): boolean {
+    return this.senderInterval !== undefined;
+  }
+
+  /**
+   * Sends a numbered packet every `interval` seconds until `stopSender` is
+   * called. Packets are sent without requesting an ACK so retransmissions do
+   * not skew the results, they leave the queue once written to the radio.
+   */
+  public startSender({
+    interval,
+    channel,
+    destination = "broadcast",
+  }: RangeTestSenderOptions): void {
+    if (interval <= 0) {
+      throw new Error("Range test interval must be greater than 0 seconds");
+    }
+    this.stopSender();
+    this.sequence = 0;
+
+    const send = (): void => {
+      const sequence = ++this.sequence;
+      this.device
+        .sendPacket(
+          new TextEncoder().encode(`seq ${sequence}`),
+          Protobuf.Portnums.PortNum.RANGE_TEST_APP,
+          destination,
+          channel,
+          false,
+          false,
+        )
+        .catch((e: Error) => {
+          this.log.error(
+            Emitter[Emitter.SendPacket],
+            `❌ Failed to send range test packet ${sequence}`,
+            e,
+          );
+        });
+    };
+    send();
+    this.senderInterval = setInterval(send, interval * 1000);
+  }
+
+  public stopSender(): void {
+    clearInterval(this.senderInterval);
+    this.senderInterval = undefined;
+  }
+
+  /** Gets all packets received, oldest first */
+  public getRecords(): RangeTestRecord[] {
+    return this.records;
+  }
+
+  /** Gets reception statistics per sender */
+  public getStats(): RangeTestStats[] {
+    const senders = [...new Set(this.records.map(({ from }) => from))];
+    return senders.map((from) => {
+      const records = this.records.filter((record) => record.from === from);
+      const sequences = new Set(records.map(({ seq }) => seq));
+      const expected = Math.max(...sequences) - Math.min(...sequences) + 1;
+
+      const stats: RangeTestStats = {
+        from,
+        received: sequences.size,
+        expected,
+        packetLoss: 1 - sequences.size / expected,
+      };
+      const snr = toRange(records.flatMap(({ snr }) => snr ?? []));
+      const rssi = toRange(records.flatMap(({ rssi }) => rssi ?? []));
+      const distance = toRange(
+        records.flatMap(({ distance }) => distance ?? []),
+      );
+      if (snr) {
+        stats.snr = snr;
+      }
+      if (rssi) {
+        stats.rssi = rssi;
+      }
+      if (distance) {
+        stats.distance = distance;
+      }
+      return stats;
+    });
+  }
+
+  /** Discards all packets received */
+  public clear(): void {
+    this.records = [];
+  }
+
+  /** Exports all packets received as CSV, one row per packet */
+  public toCsv(): string {
+    const columns = [
+      "time",
+      "from",
+      "seq",
+      "snr",
+      "rssi",
+      "hops_away",
+      "sender_latitude",
+      "sender_longitude",
+      "sender_altitude",
+      "latitude",
+      "longitude",
+      "altitude",
+      "distance",
+    ];
+    const rows = this.records.map((record) =>
+      [
+        record.rxTime.toISOString(),
+        record.from,
+        record.seq,
+        record.snr,
+        record.rssi,
+        record.hopsAway,
+        record.senderPosition?.latitude,
+        record.senderPosition?.longitude,
+        record.senderPosition?.altitude,
+        record.localPosition?.latitude,
+        record.localPosition?.longitude,
+        record.localPosition?.altitude,
+        record.distance?.toFixed(1),
+      ]
+        .map((value) => value ?? "")
+        .join(","),
+    );
+    return `${[columns.join(","), ...rows].join("\n")}\n`;
+  }
+
+  /**
+   * Exports all packets received as a GeoJSON feature collection, with a
+   * point at the connected node's position for every packet, or at the
+   * sender's position if the connected node's position is unknown. Packets
+   * without any position are left out.
+   */
+  public toGeoJson(): string {
+    const features = this.records.flatMap((record) => {
+      const position = record.localPosition ?? record.senderPosition;
+      if (!position) {
+        return [];
+      }
+      const coordinates = [position.longitude, position.latitude];
+      if (position.altitude !== undefined) {
+        coordinates.push(position.altitude);
+      }
+      return [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates },
+          properties: {
+            time: record.rxTime.toISOString(),
+            from: record.from,
+            seq: record.seq,
+            snr: record.snr,
+            rssi: record.rssi,
+            hopsAway: record.hopsAway,
+            distance: record.distance,
+          },
+        },
+      ];
+    });
+    return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+  }
+
+  private handlePacket(packet: PacketMetadata<Uint8Array>): void {
+    const match = sequencePattern.exec(new TextDecoder().decode(packet.data));
+    if (!match || packet.from === this.device.nodeDB.getOwnNode()?.num) {
+      return;
+    }
+
+    const record: RangeTestRecord = {
+      from: packet.from,
+      seq: Number.parseInt(match[1] ?? ""),
+      rxTime: packet.rxTime,
+    };
+
+    const meshPacket =
+      this.lastMeshPacket?.id === packet.id ? this.lastMeshPacket : undefined;
+    if (meshPacket?.rxSnr) {
+      record.snr = meshPacket.rxSnr;
+    }
+    if (meshPacket?.rxRssi) {
+      record.rssi = meshPacket.rxRssi;
+    }
+    if (meshPacket?.hopStart) {
+      record.hopsAway = meshPacket.hopStart - meshPacket.hopLimit;
+    }
+
+    const senderPosition = toPosition(
+      this.device.nodeDB.get(packet.from)?.position,
+    );
+    const localPosition = toPosition(this.device.nodeDB.getOwnNode()?.position);
+    if (senderPosition) {
+      record.senderPosition = senderPosition;
+    }
+    if (localPosition) {
+      record.localPosition = localPosition;
+    }
+    if (senderPosition && localPosition) {
+      record.distance = distanceBetween(senderPosition, localPosition);
+    }
+
+    this.records.push(record);
+    this.onRangeTestRecord.dispatch(record);
+  }
+}
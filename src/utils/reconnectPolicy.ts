@@ -0,0 +1,58 @@
+import type { ReconnectPolicyOptions } from "../types.ts";
+
+/**
+ * Describes when and how often a lost connection is re-established, using
+ * exponential backoff with random jitter between attempts
+ */
+export class ReconnectPolicy {
+  /** Delay before the first attempt in milliseconds */
+  public readonly initialDelay: number;
+
+  /** Upper bound for the delay between attempts in milliseconds */
+  public readonly maxDelay: number;
+
+  /** Factor the delay grows by after every failed attempt */
+  public readonly multiplier: number;
+
+  /** Fraction of the delay that is randomly added or subtracted */
+  public readonly jitter: number;
+
+  /** Number of attempts before giving up */
+  public readonly maxAttempts: number;
+
+  constructor({
+    initialDelay = 1000,
+    maxDelay = 30000,
+    multiplier = 2,
+    jitter = 0.2,
+    maxAttempts = 10,
+  }: ReconnectPolicyOptions = {}) {
+    if (initialDelay < 0 || maxDelay < initialDelay) {
+      throw new Error("Reconnect delays must satisfy 0 <= initial <= max");
+    }
+    if (jitter < 0 || jitter > 1) {
+      throw new Error("Reconnect jitter must be between 0 and 1");
+    }
+
+    this.initialDelay = initialDelay;
+    this.maxDelay = maxDelay;
+    this.multiplier = multiplier;
+    this.jitter = jitter;
+    this.maxAttempts = maxAttempts;
+  }
+
+  /** Whether the supplied attempt (starting at 1) should be made */
+  public shouldRetry(attempt: number): boolean {
+    return attempt <= this.maxAttempts;
+  }
+
+  /** Delay in milliseconds to wait before the supplied attempt */
+  public getDelay(attempt: number): number {
+    const delay = Math.min(
+      this.initialDelay * this.multiplier ** Math.max(attempt - 1, 0),
+      this.maxDelay,
+    );
+    const offset = delay * this.jitter * (Math.random() * 2 - 1);
+    return Math.round(Math.max(delay + offset, 0));
+  }
+}
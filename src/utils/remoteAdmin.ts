@@ -0,0 +1,405 @@
+import { create, toBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import type { Logger } from "tslog";
+import type { MeshDevice } from "../meshDevice.ts";
+import * as Types from "../types.ts";
+import { DeviceConfig } from "./deviceConfig.ts";
+import { EventSystem } from "./eventSystem.ts";
+import {
+  checkValidation,
+  validateChannel,
+  validateConfig,
+  validateModuleConfig,
+  validateOwner,
+} from "./validation.ts";
+
+/**
+ * Seconds after which a session passkey is refreshed before the next write,
+ * the firmware expires them after 300 seconds so slow multi-hop links still
+ * arrive in time
+ */
+const passkeyRefreshAge = 240;
+
+/** Milliseconds to wait for a node to answer a session passkey request */
+const responseTimeout = 60000;
+
+/**
+ * Administers another node on the mesh by sending it `AdminMessage`s, see
+ * `MeshDevice.admin`. Responses from the node are dispatched on this
+ * handle's own `events` and collected in its own `deviceConfig` instead of
+ * those of the connected device. Session passkeys handed out by firmware 2.5
+ * and later are attached to every request and refreshed before they expire,
+ * a write rejected for a bad passkey is retried once with a fresh one.
+ */
+export class RemoteAdmin {
+  /** Node number of the administered node */
+  public readonly nodeNum: number;
+
+  /** Responses received from the node */
+  public events: EventSystem;
+
+  /** Config, module config and channels last reported by the node */
+  public deviceConfig: DeviceConfig;
+
+  /**
+   * Channel admin messages are sent on. By default the connected device's
+   * channel named `admin`, which nodes running firmware older than 2.5
+   * require, or the primary channel, on which firmware 2.5 and later
+   * encrypts them with the node's public key.
+   */
+  public channel: Types.ChannelNumber | undefined;
+
+  private device: MeshDevice;
+
+  private sessionPasskey: Uint8Array;
+
+  /** Time the session passkey was received */
+  private sessionPasskeyTime: Date | undefined;
+
+  private onAdminResponse: SimpleEventDispatcher<Protobuf.Admin.AdminMessage>;
+
+  private log: Logger<unknown>;
+
+  constructor(
+    device: MeshDevice,
+    nodeNum: number,
+    channel?: Types.ChannelNumber,
+  ) {
+    this.device = device;
+    this.log = device.log.getSubLogger({ name: "RemoteAdmin" });
+    this.nodeNum = nodeNum;
+    this.channel = channel;
+    this.events = new EventSystem();
+    this.deviceConfig = new DeviceConfig(this);
+    this.sessionPasskey = new Uint8Array();
+    this.sessionPasskeyTime = undefined;
+    this.onAdminResponse = new SimpleEventDispatcher();
+  }
+
+  /**
+   * Handles an admin message received from the node, called by the device
+   * it was created from
+   */
+  public handleAdminMessage(
+    adminMessage: Protobuf.Admin.AdminMessage,
+    packetMetadata: Omit<Types.PacketMetadata<unknown>, "data">,
+  ): void {
+    if (adminMessage.sessionPasskey.length > 0) {
+      this.sessionPasskey = adminMessage.sessionPasskey;
+      this.sessionPasskeyTime = new Date();
+    }
+
+    switch (adminMessage.payloadVariant.case) {
+      case "getChannelResponse": {
+        this.events.onChannelPacket.dispatch(adminMessage.payloadVariant.value);
+        break;
+      }
+      case "getOwnerResponse": {
+        this.events.onUserPacket.dispatch({
+          ...packetMetadata,
+          data: adminMessage.payloadVariant.value,
+        });
+        break;
+      }
+      case "getConfigResponse": {
+        this.events.onConfigPacket.dispatch(adminMessage.payloadVariant.value);
+        break;
+      }
+      case "getModuleConfigResponse": {
+        this.events.onModuleConfigPacket.dispatch(
+          adminMessage.payloadVariant.value,
+        );
+        break;
+      }
+      case "getCannedMessageModuleMessagesResponse": {
+        this.events.onCannedMessagesPacket.dispatch(
+          adminMessage.payloadVariant.value,
+        );
+        break;
+      }
+      case "getRingtoneResponse": {
+        this.events.onRingtonePacket.dispatch(
+          adminMessage.payloadVariant.value,
+        );
+        break;
+      }
+      case "getDeviceMetadataResponse": {
+        this.events.onDeviceMetadataPacket.dispatch({
+          ...packetMetadata,
+          data: adminMessage.payloadVariant.value,
+        });
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+    this.onAdminResponse.dispatch(adminMessage);
+  }
+
+  /** Writes config to the node */
+  public async setConfig(config: Protobuf.Config.Config): Promise<number> {
+    this.checkValidation(Types.Emitter.SetConfig, "config", () =>
+      validateConfig(config),
+    );
+    return await this.set({ case: "setConfig", value: config });
+  }
+
+  /** Writes module config to the node */
+  public async setModuleConfig(
+    moduleConfig: Protobuf.ModuleConfig.ModuleConfig,
+  ): Promise<number> {
+    this.checkValidation(Types.Emitter.SetModuleConfig, "module config", () =>
+      validateModuleConfig(moduleConfig),
+    );
+    return await this.set({ case: "setModuleConfig", value: moduleConfig });
+  }
+
+  public async setCannedMessages(
+    cannedMessages: Protobuf.CannedMessages.CannedMessageModuleConfig,
+  ): Promise<number> {
+    return await this.set({
+      case: "setCannedMessageModuleMessages",
+      value: cannedMessages.messages,
+    });
+  }
+
+  /** Writes the external notification ringtone, in RTTTL format */
+  public async setRingtone(ringtone: string): Promise<number> {
+    return await this.set({ case: "setRingtoneMessage", value: ringtone });
+  }
+
+  public async setOwner(owner: Protobuf.Mesh.User): Promise<number> {
+    this.checkValidation(Types.Emitter.SetOwner, "owner", () =>
+      validateOwner(owner),
+    );
+    return await this.set({ case: "setOwner", value: owner });
+  }
+
+  public async setChannel(channel: Protobuf.Channel.Channel): Promise<number> {
+    this.checkValidation(
+      Types.Emitter.SetChannel,
+      `channel ${channel.index}`,
+      () => validateChannel(channel),
+    );
+    return await this.set({ case: "setChannel", value: channel });
+  }
+
+  /** Disables the channel with the designated index */
+  public async clearChannel(index: number): Promise<number> {
+    return await this.set({
+      case: "setChannel",
+      value: create(Protobuf.Channel.ChannelSchema, {
+        index,
+        role: Protobuf.Channel.Channel_Role.DISABLED,
+      }),
+    });
+  }
+
+  /**
+   * Sets a fixed position for the node, also enables `fixedPosition` in its
+   * position config
+   */
+  public async setFixedPosition(
+    position: Protobuf.Mesh.Position,
+  ): Promise<number> {
+    return await this.set({ case: "setFixedPosition", value: position });
+  }
+
+  /** Requests a channel, the response is emitted through `onChannelPacket` */
+  public async getChannel(index: number): Promise<number> {
+    return await this.send({ case: "getChannelRequest", value: index + 1 });
+  }
+
+  /** Requests config, the response is emitted through `onConfigPacket` */
+  public async getConfig(
+    configType: Protobuf.Admin.AdminMessage_ConfigType,
+  ): Promise<number> {
+    return await this.send({ case: "getConfigRequest", value: configType });
+  }
+
+  /**
+   * Requests module config, the response is emitted through
+   * `onModuleConfigPacket`
+   */
+  public async getModuleConfig(
+    moduleConfigType: Protobuf.Admin.AdminMessage_ModuleConfigType,
+  ): Promise<number> {
+    return await this.send({
+      case: "getModuleConfigRequest",
+      value: moduleConfigType,
+    });
+  }
+
+  /** Requests the owner, the response is emitted through `onUserPacket` */
+  public async getOwner(): Promise<number> {
+    return await this.send({ case: "getOwnerRequest", value: true });
+  }
+
+  /**
+   * Requests metadata, the response is emitted through
+   * `onDeviceMetadataPacket`
+   */
+  public async getMetadata(): Promise<number> {
+    return await this.send({ case: "getDeviceMetadataRequest", value: true });
+  }
+
+  /**
+   * Requests the canned messages, the response is emitted through
+   * `onCannedMessagesPacket`
+   */
+  public async getCannedMessages(): Promise<number> {
+    return await this.send({
+      case: "getCannedMessageModuleMessagesRequest",
+      value: true,
+    });
+  }
+
+  /**
+   * Requests the external notification ringtone, the response is emitted
+   * through `onRingtonePacket`
+   */
+  public async getRingtone(): Promise<number> {
+    return await this.send({ case: "getRingtoneRequest", value: true });
+  }
+
+  /**
+   * Starts a settings transaction, changes are only applied and the node
+   * only reboots once `commitEditSettings` is called
+   */
+  public async beginEditSettings(): Promise<number> {
+    return await this.set({ case: "beginEditSettings", value: true });
+  }
+
+  public async commitEditSettings(): Promise<number> {
+    return await this.set({ case: "commitEditSettings", value: true });
+  }
+
+  /** Resets the NodeDB of the node */
+  public async resetNodes(): Promise<number> {
+    return await this.set({ case: "nodedbReset", value: 1 });
+  }
+
+  /** Removes a node from the NodeDB of the node */
+  public async removeNodeByNum(nodeNum: number): Promise<number> {
+    return await this.set({ case: "removeByNodenum", value: nodeNum });
+  }
+
+  /** Shuts down the node after the specified amount of seconds */
+  public async shutdown(time: number): Promise<number> {
+    return await this.set({ case: "shutdownSeconds", value: time });
+  }
+
+  /** Reboots the node after the specified amount of seconds */
+  public async reboot(time: number): Promise<number> {
+    return await this.set({ case: "rebootSeconds", value: time });
+  }
+
+  /** Reboots the node into OTA mode after the specified amount of seconds */
+  public async rebootOta(time: number): Promise<number> {
+    return await this.set({ case: "rebootOtaSeconds", value: time });
+  }
+
+  public async factoryResetDevice(): Promise<number> {
+    return await this.set({ case: "factoryResetDevice", value: 1 });
+  }
+
+  public async factoryResetConfig(): Promise<number> {
+    return await this.set({ case: "factoryResetConfig", value: 1 });
+  }
+
+  /**
+   * Requests a new session passkey by asking the node for its owner, nodes
+   * running firmware older than 2.5 answer without one and need none
+   */
+  public refreshSessionPasskey(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        unsubscribe();
+        reject(
+          new Error(
+            `Node ${this.nodeNum} did not answer the session passkey request`,
+          ),
+        );
+      }, responseTimeout);
+      const unsubscribe = this.onAdminResponse.one(() => {
+        clearTimeout(timeout);
+        this.sessionPasskeyTime = new Date();
+        resolve();
+      });
+
+      this.getOwner().catch((error: Types.PacketError | Error) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Sends a write, refreshing the session passkey first if it is stale and
+   * once more if the node rejects it
+   */
+  private async set(
+    payloadVariant: Protobuf.Admin.AdminMessage["payloadVariant"],
+  ): Promise<number> {
+    const age = (Date.now() - (this.sessionPasskeyTime?.getTime() ?? 0)) / 1000;
+    if (age > passkeyRefreshAge) {
+      await this.refreshSessionPasskey();
+    }
+    try {
+      return await this.send(payloadVariant);
+    } catch (error) {
+      if (
+        (error as Types.PacketError).error !==
+        Protobuf.Mesh.Routing_Error.ADMIN_BAD_SESSION_KEY
+      ) {
+        throw error;
+      }
+      this.log.warn(
+        Types.Emitter[Types.Emitter.SendPacket],
+        `⚠️ Node ${this.nodeNum} rejected the session passkey, retrying with a new one`,
+      );
+      await this.refreshSessionPasskey();
+      return await this.send(payloadVariant);
+    }
+  }
+
+  private async send(
+    payloadVariant: Protobuf.Admin.AdminMessage["payloadVariant"],
+  ): Promise<number> {
+    const adminMessage = create(Protobuf.Admin.AdminMessageSchema, {
+      payloadVariant,
+      sessionPasskey: this.sessionPasskey,
+    });
+
+    return await this.device.sendPacket(
+      toBinary(Protobuf.Admin.AdminMessageSchema, adminMessage),
+      Protobuf.Portnums.PortNum.ADMIN_APP,
+      this.nodeNum,
+      this.channel ?? this.getAdminChannel(),
+    );
+  }
+
+  /** Index of the connected device's channel named `admin`, else 0 */
+  private getAdminChannel(): Types.ChannelNumber {
+    return (
+      this.device.deviceConfig
+        .getChannels()
+        .find((channel) => channel.settings?.name.toLowerCase() === "admin")
+        ?.index ?? Types.ChannelNumber.Primary
+    );
+  }
+
+  /** Validates a change if validation is enabled on the device */
+  private checkValidation(
+    emitter: Types.Emitter,
+    subject: string,
+    validate: () => Types.ValidationResult,
+  ): void {
+    if (this.device.validateSettings) {
+      checkValidation(this.log, emitter, subject, validate());
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { base64Decode, base64Encode } from "@bufbuild/protobuf/wire";
+import type { MeshDevice } from "../meshDevice.ts";
+import type { CaptureDirection, CaptureEntry } from "../types.ts";
+
+/** Serializes a capture entry as a single JSON line, without trailing newline */
+export const serializeCaptureEntry = (entry: CaptureEntry): string =>
+  JSON.stringify({
+    time: entry.time,
+    direction: entry.direction,
+    data: base64Encode(entry.data),
+  });
+
+/** Parses a JSON lines capture, as produced by `SessionRecorder` */
+export const parseCapture = (capture: string): CaptureEntry[] =>
+  capture
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line, index) => {
+      const { time, direction, data } = JSON.parse(line) as {
+        time: number;
+        direction: CaptureDirection;
+        data: string;
+      };
+      if (
+        typeof time !== "number" ||
+        (direction !== "fromRadio" && direction !== "toRadio") ||
+        typeof data !== "string"
+      ) {
+        throw new Error(`Malformed capture entry on line ${index + 1}`);
+      }
+      return { time, direction, data: base64Decode(data) };
+    });
+
+/**
+ * Records every ToRadio message written to and every FromRadio message
+ * received from a device, so sessions can be attached to bug reports and
+ * replayed with `ReplayConnection`
+ */
+export class SessionRecorder {
+  /** Entries recorded so far, in order */
+  public readonly entries: CaptureEntry[];
+
+  private device: MeshDevice;
+
+  /** Called with every serialized entry, e.g. to append it to a file */
+  private sink: ((line: string) => void) | undefined;
+
+  private unsubscribers: (() => void)[];
+
+  constructor(device: MeshDevice, sink?: (line: string) => void) {
+    this.entries = [];
+    this.device = device;
+    this.sink = sink;
+    this.unsubscribers = [];
+  }
+
+  /** Whether the recorder is currently attached to the device */
+  public get recording(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  /** Starts recording traffic */
+  public start(): void {
+    if (this.recording) {
+      return;
+    }
+    this.unsubscribers = [
+      this.device.events.onRawFromRadio.subscribe((data) =>
+        this.record("fromRadio", data),
+      ),
+      this.device.events.onRawToRadio.subscribe((data) =>
+        this.record("toRadio", data),
+      ),
+    ];
+  }
+
+  /** Stops recording traffic, recorded entries are kept */
+  public stop(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  /** Serializes all recorded entries as JSON lines */
+  public toJsonl(): string {
+    return this.entries
+      .map((entry) => `${serializeCaptureEntry(entry)}\n`)
+      .join("");
+  }
+
+  private record(direction: CaptureDirection, data: Uint8Array): void {
+    const entry: CaptureEntry = {
+      time: Date.now(),
+      direction,
+      data: data.slice(),
+    };
+    this.entries.push(entry);
+    this.sink?.(serializeCaptureEntry(entry));
+  }
+}
@@ -0,0 +1,124 @@
+import type { StorageBackend } from "../types.ts";
+
+/** Keeps values in memory, state survives reconnects but not restarts */
+export class MemoryStorage implements StorageBackend {
+  private values: Map<string, string>;
+
+  constructor() {
+    this.values = new Map();
+  }
+
+  public get(key: string): Promise<string | undefined> {
+    return Promise.resolve(this.values.get(key));
+  }
+
+  public set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+    return Promise.resolve();
+  }
+
+  public delete(key: string): Promise<void> {
+    this.values.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/** Name of the object store values are kept in */
+const objectStoreName = "state";
+
+/** Keeps values in an IndexedDB database, for use in browsers */
+export class IndexedDBStorage implements StorageBackend {
+  private databaseName: string;
+
+  private database: Promise<IDBDatabase> | undefined;
+
+  constructor(databaseName = "meshtastic") {
+    this.databaseName = databaseName;
+    this.database = undefined;
+  }
+
+  public get(key: string): Promise<string | undefined> {
+    return this.request<unknown>("readonly", (store) => store.get(key)).then(
+      (value) => (typeof value === "string" ? value : undefined),
+    );
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    await this.request("readwrite", (store) => store.put(value, key));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(objectStoreName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const database = await this.open();
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(
+        database
+          .transaction(objectStoreName, mode)
+          .objectStore(objectStoreName),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Keeps every value in a JSON file within the supplied directory, for use in
+ * Node.js. Requires a runtime providing `node:fs`.
+ */
+export class FileStorage implements StorageBackend {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async get(key: string): Promise<string | undefined> {
+    const { readFile } = await import("node:fs/promises");
+    return await readFile(this.path(key), "utf8").catch(
+      (e: NodeJS.ErrnoException) => {
+        if (e.code === "ENOENT") {
+          return undefined;
+        }
+        throw e;
+      },
+    );
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    const { mkdir, rename, writeFile } = await import("node:fs/promises");
+    await mkdir(this.directory, { recursive: true });
+
+    /** Write to a temporary file first, so a crash never leaves partial JSON */
+    const path = this.path(key);
+    await writeFile(`${path}.tmp`, value, "utf8");
+    await rename(`${path}.tmp`, path);
+  }
+
+  public async delete(key: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(this.path(key), { force: true });
+  }
+
+  private path(key: string): string {
+    return `${this.directory}/${encodeURIComponent(key)}.json`;
+  }
+}
@@ -0,0 +1,278 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import * as Protobuf from "@meshtastic/protobufs";
+import { SimpleEventDispatcher } from "ste-simple-events";
+import { broadcastNum } from "../constants.ts";
+import type { MeshDevice } from "../meshDevice.ts";
+import type {
+  PacketMetadata,
+  StoreForwardHistoryRequest,
+  StoreForwardRouter,
+} from "../types.ts";
+import { TextReassembler } from "./textChunker.ts";
+
+const RequestResponse = Protobuf.StoreForward.StoreAndForward_RequestResponse;
+
+/**
+ * Seconds a replayed message's receive time may differ from a message that
+ * was already received live to be considered the same message
+ */
+const duplicateWindow = 600;
+
+/**
+ * Decodes Store & Forward packets, tracks the routers heard on the mesh and
+ * requests missed messages from them. Replayed texts are dispatched as
+ * `onMessagePacket` events with `fromHistory` set, unless the same message
+ * was already received. Texts sent in parts are reassembled first.
+ */
+export class StoreForwardClient {
+  /**
+   * Fires when a router is heard for the first time or its heartbeat, stats
+   * or history state changes
+   *
+   * @event onRouterUpdated
+   */
+  public readonly onRouterUpdated =
+    new SimpleEventDispatcher<StoreForwardRouter>();
+
+  /** Oldest messages are forgotten for deduplication beyond this many */
+  public maxRemembered: number;
+
+  private device: MeshDevice;
+
+  private routers: Map<number, StoreForwardRouter>;
+
+  /** Ids of messages received, live or replayed */
+  private seenIds: Set<number>;
+
+  /** Receive times of messages received, keyed by sender, recipient and text */
+  private seenTexts: Map<string, number>;
+
+  private reassembler: TextReassembler;
+
+  constructor(device: MeshDevice, maxRemembered = 1000) {
+    this.device = device;
+    this.maxRemembered = maxRemembered;
+    this.routers = new Map();
+    this.seenIds = new Set();
+    this.seenTexts = new Map();
+    this.reassembler = new TextReassembler((message) => {
+      if (!this.isDuplicate(message)) {
+        this.device.events.onMessagePacket.dispatch(message);
+      }
+    });
+
+    device.events.onStoreForwardPacket.subscribe((packet) =>
+      this.handlePacket(packet),
+    );
+    device.events.onMessagePacket.subscribe((message) =>
+      this.remember(message),
+    );
+  }
+
+  /** Gets all known routers, most recently heard first */
+  public getRouters(): StoreForwardRouter[] {
+    return [...this.routers.values()].sort(
+      (a, b) => b.lastHeard.getTime() - a.lastHeard.getTime(),
+    );
+  }
+
+  /** Gets a router by node number */
+  public getRouter(num: number): StoreForwardRouter | undefined {
+    return this.routers.get(num);
+  }
+
+  /**
+   * Asks a router to replay the messages it stored, by default the most
+   * recently heard primary router. Continues after the last message of the
+   * previous request to the same router.
+   */
+  public async requestHistory(
+    router?: number,
+    request: StoreForwardHistoryRequest = {},
+  ): Promise<number> {
+    const destination = router ?? this.getDefaultRouter();
+    return await this.send(destination, {
+      rr: RequestResponse.CLIENT_HISTORY,
+      variant: {
+        case: "history",
+        value: create(Protobuf.StoreForward.StoreAndForward_HistorySchema, {
+          window: request.window ?? 0,
+          historyMessages: request.count ?? 0,
+          lastRequest: this.routers.get(destination)?.history?.lastRequest ?? 0,
+        }),
+      },
+    });
+  }
+
+  /** Asks a router for its statistics, reported through `onRouterUpdated` */
+  public async requestStats(router?: number): Promise<number> {
+    return await this.send(router ?? this.getDefaultRouter(), {
+      rr: RequestResponse.CLIENT_STATS,
+    });
+  }
+
+  private getDefaultRouter(): number {
+    const router =
+      this.getRouters().find((r) => !r.secondary) ?? this.getRouters()[0];
+    if (!router) {
+      throw new Error("No Store & Forward router has been heard yet");
+    }
+    return router.num;
+  }
+
+  private send(
+    destination: number,
+    message: Partial<Protobuf.StoreForward.StoreAndForward>,
+  ): Promise<number> {
+    return this.device.sendPacket(
+      toBinary(
+        Protobuf.StoreForward.StoreAndForwardSchema,
+        create(Protobuf.StoreForward.StoreAndForwardSchema, message),
+      ),
+      Protobuf.Portnums.PortNum.STORE_FORWARD_APP,
+      destination,
+      undefined,
+      true,
+      false,
+    );
+  }
+
+  private handlePacket(packet: PacketMetadata<Uint8Array>): void {
+    let message: Protobuf.StoreForward.StoreAndForward;
+    try {
+      message = fromBinary(
+        Protobuf.StoreForward.StoreAndForwardSchema,
+        packet.data,
+      );
+    } catch {
+      return;
+    }
+
+    switch (message.rr) {
+      case RequestResponse.ROUTER_TEXT_DIRECT:
+      case RequestResponse.ROUTER_TEXT_BROADCAST: {
+        if (message.variant.case === "text") {
+          this.replay(packet, message.variant.value, message.rr);
+        }
+        break;
+      }
+      case RequestResponse.ROUTER_HEARTBEAT: {
+        const heartbeat =
+          message.variant.case === "heartbeat"
+            ? message.variant.value
+            : undefined;
+        const update: Partial<StoreForwardRouter> = {
+          busy: false,
+          secondary: (heartbeat?.secondary ?? 0) !== 0,
+        };
+        if (heartbeat?.period) {
+          update.heartbeatPeriod = heartbeat.period;
+        }
+        this.updateRouter(packet.from, update);
+        break;
+      }
+      case RequestResponse.ROUTER_STATS: {
+        if (message.variant.case === "stats") {
+          this.updateRouter(packet.from, {
+            busy: false,
+            stats: message.variant.value,
+          });
+        }
+        break;
+      }
+      case RequestResponse.ROUTER_HISTORY: {
+        if (message.variant.case === "history") {
+          this.updateRouter(packet.from, {
+            busy: false,
+            history: message.variant.value,
+          });
+        }
+        break;
+      }
+      case RequestResponse.ROUTER_BUSY: {
+        this.updateRouter(packet.from, { busy: true });
+        break;
+      }
+      case RequestResponse.ROUTER_ERROR: {
+        this.updateRouter(packet.from, {});
+        break;
+      }
+      case RequestResponse.ROUTER_PING:
+      case RequestResponse.ROUTER_PONG: {
+        this.updateRouter(packet.from, {});
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+
+  private updateRouter(num: number, update: Partial<StoreForwardRouter>): void {
+    const router: StoreForwardRouter = {
+      secondary: false,
+      busy: false,
+      ...this.routers.get(num),
+      ...update,
+      num,
+      lastHeard: new Date(),
+    };
+    this.routers.set(num, router);
+    this.onRouterUpdated.dispatch(router);
+  }
+
+  /**
+   * Replayed texts carry the original sender and receive time, direct ones
+   * are always addressed to the connected node
+   */
+  private replay(
+    packet: PacketMetadata<Uint8Array>,
+    text: Uint8Array,
+    rr: Protobuf.StoreForward.StoreAndForward_RequestResponse,
+  ): void {
+    const message: PacketMetadata<string> = {
+      ...packet,
+      type:
+        rr === RequestResponse.ROUTER_TEXT_BROADCAST ? "broadcast" : "direct",
+      to:
+        rr === RequestResponse.ROUTER_TEXT_BROADCAST ? broadcastNum : packet.to,
+      data: new TextDecoder().decode(text),
+      fromHistory: true,
+    };
+    this.reassembler.push(message);
+  }
+
+  private isDuplicate(message: PacketMetadata<string>): boolean {
+    if (this.seenIds.has(message.id)) {
+      return true;
+    }
+    const seen = this.seenTexts.get(this.textKey(message));
+    return (
+      seen !== undefined &&
+      Math.abs(seen - message.rxTime.getTime()) <= duplicateWindow * 1000
+    );
+  }
+
+  private remember(message: PacketMetadata<string>): void {
+    this.seenIds.add(message.id);
+    this.seenTexts.delete(this.textKey(message));
+    this.seenTexts.set(this.textKey(message), message.rxTime.getTime());
+
+    for (const id of [...this.seenIds].slice(
+      0,
+      Math.max(this.seenIds.size - this.maxRemembered, 0),
+    )) {
+      this.seenIds.delete(id);
+    }
+    for (const key of [...this.seenTexts.keys()].slice(
+      0,
+      Math.max(this.seenTexts.size - this.maxRemembered, 0),
+    )) {
+      this.seenTexts.delete(key);
+    }
+  }
+
+  private textKey({ from, to, data }: PacketMetadata<string>): string {
+    return `${from}:${to}:${data}`;
+  }
+}
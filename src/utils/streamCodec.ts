@@ -0,0 +1,64 @@
+/** First byte of the stream header */
+export const start1 = 0x94;
+
+/** Second byte of the stream header */
+export const start2 = 0xc3;
+
+/** Length of the stream header, the start bytes followed by a 16 bit length */
+export const headerLength = 4;
+
+/** Largest payload the firmware accepts in a single frame */
+export const maxPayloadLength = 512;
+
+/**
+ * Bytes sent ahead of the first frame to wake a sleeping device, the
+ * firmware discards them as they never form a header
+ */
+export const wakePreamble: Uint8Array = new Uint8Array(32).fill(start2);
+
+/**
+ * Encodes the 4 byte stream header for a payload of the supplied length,
+ * throws if the length exceeds `maxLength`
+ */
+export const encodeHeader = (
+  length: number,
+  maxLength: number = maxPayloadLength,
+): Uint8Array => {
+  if (!Number.isInteger(length) || length < 0 || length > maxLength) {
+    throw new Error(
+      `Invalid payload length ${length}, expected 0 to ${maxLength} bytes`,
+    );
+  }
+  return new Uint8Array([start1, start2, (length >> 8) & 0xff, length & 0xff]);
+};
+
+/** Prefixes the payload with its stream header */
+export const encodeFrame = (
+  payload: Uint8Array,
+  maxLength: number = maxPayloadLength,
+): Uint8Array => {
+  const frame = new Uint8Array(headerLength + payload.length);
+  frame.set(encodeHeader(payload.length, maxLength));
+  frame.set(payload, headerLength);
+  return frame;
+};
+
+/** Whether a stream header starts at the supplied offset */
+export const isHeader = (data: Uint8Array, offset = 0): boolean =>
+  data[offset] === start1 && data[offset + 1] === start2;
+
+/**
+ * Decodes the payload length from a stream header starting at the supplied
+ * offset, returns `undefined` if there is no complete header
+ */
+export const decodeHeader = (
+  data: Uint8Array,
+  offset = 0,
+): number | undefined => {
+  const msb = data[offset + 2];
+  const lsb = data[offset + 3];
+  if (!isHeader(data, offset) || msb === undefined || lsb === undefined) {
+    return undefined;
+  }
+  return (msb << 8) | lsb;
+};
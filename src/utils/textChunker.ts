@@ -0,0 +1,163 @@
+import { maxTextMessageLength } from "../constants.ts";
+import type { PacketMetadata, TextChunk } from "../types.ts";
+
+/** Most parts a text can be split into, bounded by the two digit header */
+const maxParts = 99;
+
+/** Matches the `[<id>:<part>/<total>] ` header that prefixes every part */
+const chunkHeader = /^\[([0-9a-z]{1,3}):(\d{1,2})\/(\d{1,2})\] /;
+
+const formatHeader = (chunkId: string, part: number, total: number): string =>
+  `[${chunkId}:${part}/${total}] `;
+
+/**
+ * Splits a text that does not fit into a single packet into numbered parts,
+ * each prefixed with a short header that stays readable on clients unaware
+ * of chunking. Parts end on whitespace where possible and never split a
+ * character or emoji. Texts that fit are returned unchanged.
+ */
+export const splitText = (
+  text: string,
+  maxBytes = maxTextMessageLength,
+): string[] => {
+  const encoder = new TextEncoder();
+  const byteLength = (value: string): number => encoder.encode(value).length;
+  if (byteLength(text) <= maxBytes) {
+    return [text];
+  }
+
+  const chunkId = Math.floor(Math.random() * 36 ** 3).toString(36);
+  const budget =
+    maxBytes - byteLength(formatHeader(chunkId, maxParts, maxParts));
+
+  const parts: string[] = [];
+  let current = "";
+  for (const { segment } of new Intl.Segmenter().segment(text)) {
+    if (byteLength(current + segment) <= budget) {
+      current += segment;
+      continue;
+    }
+    const space = current.lastIndexOf(" ");
+    if (space > current.length / 2) {
+      parts.push(current.slice(0, space + 1));
+      current = current.slice(space + 1) + segment;
+    } else {
+      parts.push(current);
+      current = segment;
+    }
+  }
+  parts.push(current);
+
+  if (parts.length > maxParts) {
+    throw new Error(
+      `Message would need ${parts.length} parts, at most ${maxParts} are supported`,
+    );
+  }
+  return parts.map(
+    (part, index) => formatHeader(chunkId, index + 1, parts.length) + part,
+  );
+};
+
+/** Parses the header of a text produced by `splitText`, if present */
+export const parseTextChunk = (text: string): TextChunk | undefined => {
+  const match = chunkHeader.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const [header, chunkId = "", part = "", total = ""] = match;
+  const chunk: TextChunk = {
+    chunkId,
+    part: Number.parseInt(part),
+    total: Number.parseInt(total),
+    text: text.slice(header.length),
+  };
+  return chunk.part >= 1 && chunk.part <= chunk.total ? chunk : undefined;
+};
+
+interface PendingText {
+  total: number;
+  parts: Map<number, PacketMetadata<string>>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Reassembles texts split by `splitText` into a single message. Texts that
+ * were not split are passed through immediately. If parts are still missing
+ * once `timeout` elapses, the parts received so far are delivered with `…`
+ * in place of the missing ones.
+ */
+export class TextReassembler {
+  /** Milliseconds to wait for missing parts */
+  public timeout: number;
+
+  private onMessage: (message: PacketMetadata<string>) => void;
+
+  /** Partially received texts, keyed by sender and chunk id */
+  private pending: Map<string, PendingText>;
+
+  constructor(
+    onMessage: (message: PacketMetadata<string>) => void,
+    timeout = 30000,
+  ) {
+    this.onMessage = onMessage;
+    this.timeout = timeout;
+    this.pending = new Map();
+  }
+
+  public push(message: PacketMetadata<string>): void {
+    const chunk = parseTextChunk(message.data);
+    if (!chunk) {
+      this.onMessage(message);
+      return;
+    }
+
+    const key = `${message.from}:${chunk.chunkId}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = {
+        total: chunk.total,
+        parts: new Map(),
+        timer: setTimeout(() => this.complete(key), this.timeout),
+      };
+      this.pending.set(key, pending);
+    }
+    pending.parts.set(chunk.part, { ...message, data: chunk.text });
+
+    if (pending.parts.size === pending.total) {
+      this.complete(key);
+    }
+  }
+
+  /** Discards all partially received texts */
+  public clear(): void {
+    for (const { timer } of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Delivers a text with the metadata of its first part and the id of its
+   * last part, which is also the id `sendText` resolves with
+   */
+  private complete(key: string): void {
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(key);
+
+    const received = [...pending.parts.keys()].sort((a, b) => a - b);
+    const first = pending.parts.get(received[0] ?? 0);
+    const last = pending.parts.get(received.at(-1) ?? 0);
+    if (!first || !last) {
+      return;
+    }
+
+    const data = [...Array(pending.total).keys()]
+      .map((index) => pending.parts.get(index + 1)?.data ?? "…")
+      .join("");
+    this.onMessage({ ...first, id: last.id, data });
+  }
+}
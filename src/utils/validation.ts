@@ -0,0 +1,538 @@
+import * as Protobuf from "@meshtastic/protobufs";
+import type { Logger } from "tslog";
+import { maxChannelNameLength, maxChannels } from "../constants.ts";
+import {
+  Emitter,
+  type ValidationIssue,
+  type ValidationResult,
+  type ValidationSeverity,
+} from "../types.ts";
+
+interface RegionInfo {
+  /** Lowest frequency of the band, in MHz */
+  freqStart: number;
+  /** Highest frequency of the band, in MHz */
+  freqEnd: number;
+  /** Highest transmit power allowed, in dBm */
+  powerLimit: number;
+}
+
+/** Band limits of each region, as defined by the firmware */
+const regions: Partial<
+  Record<Protobuf.Config.Config_LoRaConfig_RegionCode, RegionInfo>
+> = {
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.US]: {
+    freqStart: 902,
+    freqEnd: 928,
+    powerLimit: 30,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.EU_433]: {
+    freqStart: 433,
+    freqEnd: 434,
+    powerLimit: 12,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.EU_868]: {
+    freqStart: 869.4,
+    freqEnd: 869.65,
+    powerLimit: 27,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.CN]: {
+    freqStart: 470,
+    freqEnd: 510,
+    powerLimit: 19,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.JP]: {
+    freqStart: 920.5,
+    freqEnd: 923.5,
+    powerLimit: 13,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.ANZ]: {
+    freqStart: 915,
+    freqEnd: 928,
+    powerLimit: 30,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.KR]: {
+    freqStart: 920,
+    freqEnd: 923,
+    powerLimit: 23,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.TW]: {
+    freqStart: 920,
+    freqEnd: 925,
+    powerLimit: 27,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.RU]: {
+    freqStart: 868.7,
+    freqEnd: 869.2,
+    powerLimit: 20,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.IN]: {
+    freqStart: 865,
+    freqEnd: 867,
+    powerLimit: 30,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.NZ_865]: {
+    freqStart: 864,
+    freqEnd: 868,
+    powerLimit: 36,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.TH]: {
+    freqStart: 920,
+    freqEnd: 925,
+    powerLimit: 16,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.LORA_24]: {
+    freqStart: 2400,
+    freqEnd: 2483.5,
+    powerLimit: 10,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.UA_433]: {
+    freqStart: 433,
+    freqEnd: 434.7,
+    powerLimit: 10,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.UA_868]: {
+    freqStart: 868,
+    freqEnd: 868.6,
+    powerLimit: 14,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.MY_433]: {
+    freqStart: 433,
+    freqEnd: 435,
+    powerLimit: 20,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.MY_919]: {
+    freqStart: 919,
+    freqEnd: 924,
+    powerLimit: 27,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.SG_923]: {
+    freqStart: 917,
+    freqEnd: 925,
+    powerLimit: 20,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.PH_433]: {
+    freqStart: 433,
+    freqEnd: 434.7,
+    powerLimit: 10,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.PH_868]: {
+    freqStart: 868,
+    freqEnd: 869.4,
+    powerLimit: 14,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.PH_915]: {
+    freqStart: 915,
+    freqEnd: 918,
+    powerLimit: 24,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.ANZ_433]: {
+    freqStart: 433.05,
+    freqEnd: 434.79,
+    powerLimit: 14,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.KZ_433]: {
+    freqStart: 433.075,
+    freqEnd: 434.775,
+    powerLimit: 10,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.KZ_863]: {
+    freqStart: 863,
+    freqEnd: 868,
+    powerLimit: 30,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.NP_865]: {
+    freqStart: 865,
+    freqEnd: 868,
+    powerLimit: 30,
+  },
+  [Protobuf.Config.Config_LoRaConfig_RegionCode.BR_902]: {
+    freqStart: 902,
+    freqEnd: 907.5,
+    powerLimit: 30,
+  },
+};
+
+/**
+ * Bandwidth of each modem preset, in kHz. Presets added to the firmware later
+ * are missing and skip the bandwidth check.
+ */
+const presetBandwidths: Partial<
+  Record<Protobuf.Config.Config_LoRaConfig_ModemPreset, number>
+> = {
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.LONG_FAST]: 250,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.LONG_SLOW]: 125,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.VERY_LONG_SLOW]: 62.5,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.MEDIUM_SLOW]: 250,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.MEDIUM_FAST]: 250,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.SHORT_SLOW]: 250,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.SHORT_FAST]: 250,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.LONG_MODERATE]: 125,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.SHORT_TURBO]: 500,
+  [Protobuf.Config.Config_LoRaConfig_ModemPreset.LONG_TURBO]: 500,
+};
+
+/** Highest hop limit representable in the packet header */
+const maxHopLimit = 7;
+
+/** Longest owner names accepted by the firmware, in bytes */
+const maxLongNameLength = 39;
+const maxShortNameLength = 4;
+
+/** Shortest interval the firmware broadcasts neighbor info at, in seconds */
+const minNeighborInfoInterval = 4 * 60 * 60;
+
+/** Shortest interval the firmware publishes map reports at, in seconds */
+const minMapReportInterval = 60 * 60;
+
+const byteLength = (value: string): number =>
+  new TextEncoder().encode(value).length;
+
+/** Collects issues for a single object being validated */
+class IssueCollector {
+  private issues: ValidationIssue[];
+
+  constructor() {
+    this.issues = [];
+  }
+
+  public error(field: string, message: string): void {
+    this.add("error", field, message);
+  }
+
+  public warning(field: string, message: string): void {
+    this.add("warning", field, message);
+  }
+
+  public merge({ errors, warnings }: ValidationResult): void {
+    this.issues.push(...errors, ...warnings);
+  }
+
+  public result(): ValidationResult {
+    const errors = this.issues.filter((issue) => issue.severity === "error");
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: this.issues.filter((issue) => issue.severity === "warning"),
+    };
+  }
+
+  private add(severity: ValidationSeverity, field: string, message: string) {
+    this.issues.push({ severity, field, message });
+  }
+}
+
+const validateLoRa = (
+  lora: Protobuf.Config.Config_LoRaConfig,
+  issues: IssueCollector,
+): void => {
+  const region =
+    regions[lora.region as Protobuf.Config.Config_LoRaConfig_RegionCode];
+  if (lora.region === Protobuf.Config.Config_LoRaConfig_RegionCode.UNSET) {
+    issues.warning(
+      "lora.region",
+      "Region is not set, the device will not transmit",
+    );
+  }
+
+  let bandwidth: number = lora.bandwidth;
+  if (lora.usePreset) {
+    bandwidth =
+      presetBandwidths[
+        lora.modemPreset as Protobuf.Config.Config_LoRaConfig_ModemPreset
+      ] ?? 0;
+    if (!bandwidth) {
+      issues.warning(
+        "lora.modemPreset",
+        `Unknown modem preset ${lora.modemPreset}, its bandwidth is not checked`,
+      );
+    }
+  } else {
+    if (!lora.bandwidth) {
+      issues.error("lora.bandwidth", "Bandwidth is required without a preset");
+    }
+    if (lora.spreadFactor < 7 || lora.spreadFactor > 12) {
+      issues.error(
+        "lora.spreadFactor",
+        `Spread factor ${lora.spreadFactor} is out of range, expected 7 to 12`,
+      );
+    }
+    if (lora.codingRate < 5 || lora.codingRate > 8) {
+      issues.error(
+        "lora.codingRate",
+        `Coding rate ${lora.codingRate} is out of range, expected 5 to 8`,
+      );
+    }
+  }
+
+  if (region && bandwidth > (region.freqEnd - region.freqStart) * 1000) {
+    issues.error(
+      lora.usePreset ? "lora.modemPreset" : "lora.bandwidth",
+      `Bandwidth of ${bandwidth} kHz exceeds the ${Protobuf.Config.Config_LoRaConfig_RegionCode[lora.region]} band`,
+    );
+  }
+  if (region && lora.txPower > region.powerLimit) {
+    issues.warning(
+      "lora.txPower",
+      `Transmit power of ${lora.txPower} dBm exceeds the regional limit, the firmware will use ${region.powerLimit} dBm`,
+    );
+  }
+  if (lora.hopLimit > maxHopLimit) {
+    issues.error(
+      "lora.hopLimit",
+      `Hop limit ${lora.hopLimit} is out of range, expected 0 to ${maxHopLimit}`,
+    );
+  }
+  if (!lora.txEnabled) {
+    issues.warning("lora.txEnabled", "Transmitting is disabled");
+  }
+};
+
+const validateKey = (
+  key: Uint8Array,
+  field: string,
+  issues: IssueCollector,
+): void => {
+  if (key.length !== 0 && key.length !== 32) {
+    issues.error(field, `Invalid key length ${key.length}, expected 32 bytes`);
+  }
+};
+
+/** Checks a config variant against the rules enforced by the firmware */
+export const validateConfig = (
+  config: Protobuf.Config.Config,
+): ValidationResult => {
+  const issues = new IssueCollector();
+
+  switch (config.payloadVariant.case) {
+    case "lora": {
+      validateLoRa(config.payloadVariant.value, issues);
+      break;
+    }
+    case "bluetooth": {
+      const { mode, fixedPin } = config.payloadVariant.value;
+      if (
+        mode === Protobuf.Config.Config_BluetoothConfig_PairingMode.FIXED_PIN &&
+        (fixedPin < 100000 || fixedPin > 999999)
+      ) {
+        issues.error("bluetooth.fixedPin", "Fixed PIN must have 6 digits");
+      }
+      break;
+    }
+    case "network": {
+      const { wifiEnabled, wifiSsid, wifiPsk } = config.payloadVariant.value;
+      if (byteLength(wifiSsid) > 32) {
+        issues.error("network.wifiSsid", "SSID is longer than 32 bytes");
+      }
+      if (wifiPsk && (wifiPsk.length < 8 || byteLength(wifiPsk) > 64)) {
+        issues.error(
+          "network.wifiPsk",
+          "WiFi password must be 8 to 64 characters long",
+        );
+      }
+      if (wifiEnabled && !wifiSsid) {
+        issues.warning("network.wifiSsid", "WiFi is enabled without an SSID");
+      }
+      break;
+    }
+    case "security": {
+      const { privateKey, publicKey, adminKey, isManaged } =
+        config.payloadVariant.value;
+      validateKey(privateKey, "security.privateKey", issues);
+      validateKey(publicKey, "security.publicKey", issues);
+      if (adminKey.length > 3) {
+        issues.error("security.adminKey", "At most 3 admin keys are supported");
+      }
+      adminKey.forEach((key: Uint8Array, index: number) =>
+        validateKey(key, `security.adminKey.${index}`, issues),
+      );
+      if (isManaged && adminKey.length === 0) {
+        issues.error(
+          "security.isManaged",
+          "Managed mode requires an admin key, the device could not be configured anymore",
+        );
+      }
+      break;
+    }
+    case undefined: {
+      issues.error("payloadVariant", "Config does not contain a variant");
+      break;
+    }
+    default: {
+      break;
+    }
+  }
+
+  return issues.result();
+};
+
+/** Checks a module config variant against the rules enforced by the firmware */
+export const validateModuleConfig = (
+  moduleConfig: Protobuf.ModuleConfig.ModuleConfig,
+): ValidationResult => {
+  const issues = new IssueCollector();
+
+  switch (moduleConfig.payloadVariant.case) {
+    case "mqtt": {
+      const { enabled, address, mapReportingEnabled, mapReportSettings } =
+        moduleConfig.payloadVariant.value;
+      if (enabled && !address) {
+        issues.warning(
+          "mqtt.address",
+          "No server address set, the default public server is used",
+        );
+      }
+      if (
+        mapReportingEnabled &&
+        mapReportSettings?.publishIntervalSecs &&
+        mapReportSettings.publishIntervalSecs < minMapReportInterval
+      ) {
+        issues.warning(
+          "mqtt.mapReportSettings.publishIntervalSecs",
+          `Map reports are published at most every ${minMapReportInterval} seconds`,
+        );
+      }
+      break;
+    }
+    case "neighborInfo": {
+      const { enabled, updateInterval } = moduleConfig.payloadVariant.value;
+      if (
+        enabled &&
+        updateInterval &&
+        updateInterval < minNeighborInfoInterval
+      ) {
+        issues.warning(
+          "neighborInfo.updateInterval",
+          `Neighbor info is broadcast at most every ${minNeighborInfoInterval} seconds`,
+        );
+      }
+      break;
+    }
+    case undefined: {
+      issues.error(
+        "payloadVariant",
+        "Module config does not contain a variant",
+      );
+      break;
+    }
+    default: {
+      break;
+    }
+  }
+
+  return issues.result();
+};
+
+/** Checks channel settings, as found in channels and channel set URLs */
+export const validateChannelSettings = (
+  settings: Protobuf.Channel.ChannelSettings,
+): ValidationResult => {
+  const issues = new IssueCollector();
+
+  if (byteLength(settings.name) > maxChannelNameLength) {
+    issues.error(
+      "settings.name",
+      `Name is longer than ${maxChannelNameLength} bytes`,
+    );
+  }
+  if (![0, 1, 16, 32].includes(settings.psk.length)) {
+    issues.error(
+      "settings.psk",
+      `Invalid PSK length ${settings.psk.length}, expected 0, 1, 16 or 32 bytes`,
+    );
+  } else if (
+    settings.psk.length === 0 ||
+    (settings.psk.length === 1 && settings.psk[0] === 0)
+  ) {
+    issues.warning("settings.psk", "Channel is not encrypted");
+  }
+  const precision = settings.moduleSettings?.positionPrecision ?? 0;
+  if (precision > 32) {
+    issues.error(
+      "settings.moduleSettings.positionPrecision",
+      `Position precision ${precision} is out of range, expected 0 to 32`,
+    );
+  }
+
+  return issues.result();
+};
+
+/** Checks a channel against the rules enforced by the firmware */
+export const validateChannel = (
+  channel: Protobuf.Channel.Channel,
+): ValidationResult => {
+  const issues = new IssueCollector();
+
+  if (channel.index < 0 || channel.index >= maxChannels) {
+    issues.error(
+      "index",
+      `Channel index ${channel.index} is out of range, expected 0 to ${maxChannels - 1}`,
+    );
+  }
+  const isPrimary = channel.role === Protobuf.Channel.Channel_Role.PRIMARY;
+  if (channel.index === 0 && !isPrimary) {
+    issues.error("role", "Channel 0 must be the primary channel");
+  }
+  if (channel.index !== 0 && isPrimary) {
+    issues.error("role", "Only channel 0 can be the primary channel");
+  }
+  if (
+    channel.role !== Protobuf.Channel.Channel_Role.DISABLED &&
+    channel.settings
+  ) {
+    issues.merge(validateChannelSettings(channel.settings));
+  }
+
+  return issues.result();
+};
+
+/** Checks owner details against the rules enforced by the firmware */
+export const validateOwner = (owner: Protobuf.Mesh.User): ValidationResult => {
+  const issues = new IssueCollector();
+
+  if (byteLength(owner.longName) > maxLongNameLength) {
+    issues.error(
+      "longName",
+      `Long name is longer than ${maxLongNameLength} bytes`,
+    );
+  }
+  if (byteLength(owner.shortName) > maxShortNameLength) {
+    issues.error(
+      "shortName",
+      `Short name is longer than ${maxShortNameLength} bytes`,
+    );
+  }
+  if (!owner.longName || !owner.shortName) {
+    issues.warning(
+      owner.longName ? "shortName" : "longName",
+      "Empty names are ignored by the firmware",
+    );
+  }
+  if (owner.isLicensed) {
+    issues.warning(
+      "isLicensed",
+      "Licensed operation disables encryption on all channels",
+    );
+  }
+
+  return issues.result();
+};
+
+/** Logs validation warnings and throws if any errors were found */
+export const checkValidation = (
+  log: Logger<unknown>,
+  emitter: Emitter,
+  subject: string,
+  { errors, warnings }: ValidationResult,
+): void => {
+  for (const warning of warnings) {
+    log.warn(Emitter[emitter], `⚠️ ${warning.field}: ${warning.message}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${subject}: ${errors
+        .map((error) => `${error.field}: ${error.message}`)
+        .join(", ")}`,
+    );
+  }
+};